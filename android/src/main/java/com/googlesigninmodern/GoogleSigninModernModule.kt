@@ -6,20 +6,36 @@ import com.facebook.react.module.annotations.ReactModule
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.WritableMap
+import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.BaseActivityEventListener
+import androidx.credentials.ClearCredentialStateRequest
 import androidx.credentials.CredentialManager
 import androidx.credentials.GetCredentialRequest
+import androidx.credentials.exceptions.GetCredentialCancellationException
 import androidx.credentials.exceptions.GetCredentialException
+import androidx.credentials.exceptions.GetCredentialProviderConfigurationException
 import androidx.credentials.exceptions.NoCredentialException
 import com.google.android.libraries.identity.googleid.GetGoogleIdOption
+import com.google.android.libraries.identity.googleid.GetSignInWithGoogleOption
 import com.google.android.libraries.identity.googleid.GoogleIdTokenCredential
 import com.google.android.gms.common.GoogleApiAvailability
 import com.google.android.gms.common.ConnectionResult
+import com.google.android.gms.common.api.ApiException
+import com.google.android.gms.common.api.Scope
+import com.google.android.gms.auth.api.identity.AuthorizationRequest
+import com.google.android.gms.auth.api.identity.AuthorizationResult
+import com.google.android.gms.auth.api.identity.Identity
+import com.google.android.gms.auth.api.identity.RevokeAccessRequest
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.launch
 import android.util.Log
+import android.accounts.Account
+import android.app.Activity
+import android.content.Context
 import android.content.Intent
+import android.content.IntentSender
 import android.provider.Settings
 import android.util.Base64
 import org.json.JSONObject
@@ -31,7 +47,27 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
     private val TAG = "GoogleSigninModern"
 	private var credentialManager: CredentialManager? = null
 	private var webClientId: String? = null
+	private var configuredScopes: List<String> = DEFAULT_SCOPES
+	private var offlineAccess: Boolean = false
+	private var hostedDomain: String? = null
 	private var pendingPromise: Promise? = null
+	private var pendingNonce: String? = null
+	private var pendingAccountFilter: AccountFilter = AccountFilter.AUTHORIZED_THEN_ALL
+	private var pendingAutoSelect: Boolean = false
+	private var pendingPreferImmediatelyAvailable: Boolean = false
+	private var pendingAuthorization: AuthorizationCallback? = null
+
+	private val activityEventListener = object : BaseActivityEventListener() {
+		override fun onActivityResult(activity: Activity, requestCode: Int, resultCode: Int, data: Intent?) {
+			if (requestCode == AUTHORIZATION_REQUEST_CODE) {
+				handleAuthorizationActivityResult(activity, resultCode, data)
+			}
+		}
+	}
+
+	init {
+		reactContext.addActivityEventListener(activityEventListener)
+	}
 
 	override fun getName(): String {
 		return NAME
@@ -46,14 +82,30 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
 		private const val ERROR_SIGN_IN_IN_PROGRESS = "SIGN_IN_IN_PROGRESS"
 		private const val ERROR_NO_GOOGLE_ACCOUNTS = "NO_GOOGLE_ACCOUNTS"
 		private const val ERROR_SIGN_IN_ERROR = "SIGN_IN_ERROR"
+		private const val ERROR_SIGN_IN_REQUIRED = "SIGN_IN_REQUIRED"
+		private const val ERROR_NO_SAVED_CREDENTIAL = "NO_SAVED_CREDENTIAL"
+		private const val ERROR_USER_CANCELLED = "USER_CANCELLED"
+		private const val ERROR_PLAY_SERVICES_NOT_AVAILABLE = "PLAY_SERVICES_NOT_AVAILABLE"
 		private const val ERROR_CREDENTIAL_PARSE_ERROR = "CREDENTIAL_PARSE_ERROR"
 		private const val ERROR_UNEXPECTED_CREDENTIAL = "UNEXPECTED_CREDENTIAL"
 		private const val ERROR_CONFIGURE_ERROR = "CONFIGURE_ERROR"
 		private const val ERROR_SIGN_OUT_ERROR = "SIGN_OUT_ERROR"
 		private const val ERROR_SIGN_OUT_REQUESTED = "SIGN_OUT_REQUESTED"
+		private const val ERROR_REVOKE_ACCESS_ERROR = "REVOKE_ACCESS_ERROR"
 		private const val ERROR_MODULE_DESTROYED = "MODULE_DESTROYED"
 		private const val ERROR_NO_USER = "NO_USER"
 		private const val ERROR_TOKEN_REFRESH_ERROR = "TOKEN_REFRESH_ERROR"
+		private const val ERROR_AUTHORIZATION_ERROR = "AUTHORIZATION_ERROR"
+		private const val ERROR_AUTHORIZATION_DENIED = "AUTHORIZATION_DENIED"
+		
+		// Scopes requested when configure() is called without explicit scopes
+		private val DEFAULT_SCOPES = listOf("openid", "email", "profile")
+		
+		// Request code for the authorization consent screen
+		private const val AUTHORIZATION_REQUEST_CODE = 53294
+		
+		// Sign-in option value that selects the "Sign in with Google" button flow
+		private const val PRESENTATION_BUTTON = "button"
 		
 		// Credential types
 		private const val GOOGLE_ID_TOKEN_CREDENTIAL_TYPE = "com.google.android.libraries.identity.googleid.TYPE_GOOGLE_ID_TOKEN_CREDENTIAL"
@@ -61,10 +113,20 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
 		
 		// Google account type for add account intent
 		private const val GOOGLE_ACCOUNT_TYPE = "com.google"
+		
+		// SharedPreferences holding the session the JS layer persists
+		private const val SESSION_PREFERENCES = "GoogleSigninModern"
+		private const val SESSION_KEY = "session"
 	}
 
-    override fun configure(webClientId: String, promise: Promise) {
+	private val sessionPreferences by lazy {
+		reactApplicationContext.getSharedPreferences(SESSION_PREFERENCES, Context.MODE_PRIVATE)
+	}
+
+    override fun configure(config: ReadableMap, promise: Promise) {
         try {
+            val webClientId = if (config.hasKey("webClientId")) config.getString("webClientId") ?: "" else ""
+
             // Validate webClientId format - Google OAuth client IDs typically end with .apps.googleusercontent.com
             if (webClientId.isBlank()) {
                 promise.reject(ERROR_CONFIGURE_ERROR, "webClientId cannot be blank")
@@ -75,8 +137,12 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
             }
             
             this.webClientId = webClientId
+            this.configuredScopes = readStringList(config, "scopes")?.takeIf { it.isNotEmpty() } ?: DEFAULT_SCOPES
+            this.offlineAccess = config.hasKey("offlineAccess") && config.getBoolean("offlineAccess")
+            this.hostedDomain = if (config.hasKey("hostedDomain")) config.getString("hostedDomain")?.takeIf { it.isNotBlank() } else null
             this.credentialManager = CredentialManager.create(reactApplicationContext)
             Log.d(TAG, "Google Sign-In configured successfully")
+            Log.d(TAG, "Scopes: $configuredScopes, offline access: $offlineAccess, hosted domain: ${hostedDomain ?: "none"}")
             Log.d(TAG, "Package name: ${reactApplicationContext.packageName}")
             promise.resolve(null)
         } catch (e: Exception) {
@@ -96,19 +162,40 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
         }
     }
 
-    override fun signIn(promise: Promise) {
+    override fun signIn(options: ReadableMap, promise: Promise) {
+        // A tapped sign-in button gets the full "Sign in with Google" UI instead of the bottom sheet
+        val isButton = readPresentation(options) == PRESENTATION_BUTTON
         performSignIn(
             promise = promise,
-            flowType = SignInFlowType.INTERACTIVE,
-            logMessage = "Sign-in request initiated"
+            flowType = if (isButton) SignInFlowType.EXPLICIT else SignInFlowType.INTERACTIVE,
+            logMessage = if (isButton) "Sign-in request initiated from button" else "Sign-in request initiated",
+            nonce = readNonce(options),
+            accountFilter = readAccountFilter(options),
+            autoSelect = readFlag(options, "autoSelect"),
+            preferImmediatelyAvailable = readFlag(options, "preferImmediatelyAvailableCredentials")
         )
     }
 
-    override fun signInSilently(promise: Promise) {
+    /**
+     * Opens the full "Sign in with Google" UI via [GetSignInWithGoogleOption].
+     * Unlike the bottom sheet, it is not subject to the cooldown after repeated dismissals
+     * and lets the user add an account.
+     */
+    override fun presentExplicitSignIn(options: ReadableMap, promise: Promise) {
+        performSignIn(
+            promise = promise,
+            flowType = SignInFlowType.EXPLICIT,
+            logMessage = "Explicit sign-in request initiated",
+            nonce = readNonce(options)
+        )
+    }
+
+    override fun signInSilently(options: ReadableMap, promise: Promise) {
         performSignIn(
             promise = promise,
             flowType = SignInFlowType.SILENT,
-            logMessage = "Silent sign-in request initiated"
+            logMessage = "Silent sign-in request initiated",
+            nonce = readNonce(options)
         )
     }
 
@@ -116,15 +203,38 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
      * Enum to define different sign-in flow types
      */
     private enum class SignInFlowType {
-        INTERACTIVE,    // Regular sign-in with fallback to all accounts
+        INTERACTIVE,    // Regular sign-in, accounts limited by AccountFilter
+        EXPLICIT,       // Full "Sign in with Google" UI
         SILENT,         // Silent sign-in, authorized accounts only
         TOKEN_REFRESH   // Token refresh, authorized accounts only
     }
 
+    /**
+     * Accounts an interactive sign-in may offer, matching the JS `accountFilter` values
+     */
+    private enum class AccountFilter(val value: String) {
+        AUTHORIZED_ONLY("authorizedOnly"),
+        ALL("all"),
+        AUTHORIZED_THEN_ALL("authorizedThenAll");
+
+        companion object {
+            fun fromValue(value: String?): AccountFilter =
+                values().firstOrNull { it.value == value } ?: AUTHORIZED_THEN_ALL
+        }
+    }
+
     /**
      * Unified sign-in method that handles all flow types
      */
-    private fun performSignIn(promise: Promise, flowType: SignInFlowType, logMessage: String) {
+    private fun performSignIn(
+        promise: Promise,
+        flowType: SignInFlowType,
+        logMessage: String,
+        nonce: String? = null,
+        accountFilter: AccountFilter = AccountFilter.AUTHORIZED_THEN_ALL,
+        autoSelect: Boolean = false,
+        preferImmediatelyAvailable: Boolean = false
+    ) {
         try {
             Log.d(TAG, logMessage)
             
@@ -152,12 +262,18 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
                 return
             }
 
-            // Store promise for callback
+            // Store promise and request options for callback
             pendingPromise = promise
+            pendingNonce = nonce
+            pendingAccountFilter = accountFilter
+            pendingAutoSelect = autoSelect
+            pendingPreferImmediatelyAvailable = preferImmediatelyAvailable
 
-            Log.d(TAG, "Starting ${flowType.name.lowercase(java.util.Locale.ROOT)} flow with authorized accounts")
-            // All flows start by checking authorized accounts first
-            performCredentialRequest(filterByAuthorizedAccounts = true, flowType = flowType)
+            // Flows start with authorized accounts unless the caller asked for all accounts
+            val filterByAuthorizedAccounts = !(flowType == SignInFlowType.INTERACTIVE && accountFilter == AccountFilter.ALL)
+            val filterType = if (filterByAuthorizedAccounts) "authorized accounts" else "all accounts"
+            Log.d(TAG, "Starting ${flowType.name.lowercase(java.util.Locale.ROOT)} flow with $filterType")
+            performCredentialRequest(filterByAuthorizedAccounts = filterByAuthorizedAccounts, flowType = flowType)
 
         } catch (e: Exception) {
             Log.e(TAG, "Exception in ${flowType.name.lowercase(java.util.Locale.ROOT)}", e)
@@ -176,6 +292,42 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
         pendingPromise = null
     }
 
+    /**
+     * Read an optional array of strings from a configuration map
+     */
+    private fun readStringList(map: ReadableMap, key: String): List<String>? {
+        if (!map.hasKey(key) || map.isNull(key)) {
+            return null
+        }
+        val array = map.getArray(key) ?: return null
+        return (0 until array.size()).mapNotNull { array.getString(it) }
+    }
+
+    private fun readAccountFilter(options: ReadableMap): AccountFilter {
+        val value = if (options.hasKey("accountFilter") && !options.isNull("accountFilter")) options.getString("accountFilter") else null
+        return AccountFilter.fromValue(value)
+    }
+
+    private fun readPresentation(options: ReadableMap): String? =
+        if (options.hasKey("presentation") && !options.isNull("presentation")) options.getString("presentation") else null
+
+    private fun readNonce(options: ReadableMap): String? {
+        return if (options.hasKey("nonce") && !options.isNull("nonce")) options.getString("nonce") else null
+    }
+
+    /**
+     * Read an optional boolean sign-in option, treating a missing or null value as false
+     */
+    private fun readFlag(options: ReadableMap, key: String): Boolean =
+        options.hasKey(key) && !options.isNull(key) && options.getBoolean(key)
+
+    /**
+     * Whether the configuration asks for more than the basic profile scopes the ID token already covers
+     */
+    private fun requiresAuthorization(): Boolean {
+        return offlineAccess || !DEFAULT_SCOPES.containsAll(configuredScopes)
+    }
+
     /**
      * Extract the stable user ID from the ID token's "sub" claim.
      * The "sub" (subject) claim is the stable, unique identifier for the Google user
@@ -199,7 +351,10 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
         }
     }
 
-    private fun createSignInResponse(credential: GoogleIdTokenCredential): WritableMap {
+    private fun createSignInResponse(
+        credential: GoogleIdTokenCredential,
+        authorizationResult: AuthorizationResult?
+    ): WritableMap {
         val idToken = credential.idToken
         val stableUserId = extractUserIdFromToken(idToken) ?: credential.id
         val user = Arguments.createMap().apply {
@@ -211,6 +366,10 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
 
         return Arguments.createMap().apply {
             putString("idToken", idToken)
+            // Only set when offline access was requested through the Authorization API
+            putString("serverAuthCode", authorizationResult?.serverAuthCode)
+            // Echo the nonce so JS can match it against the ID token's nonce claim
+            putString("nonce", pendingNonce)
             putMap("user", user)
         }
     }
@@ -221,16 +380,32 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
     private fun performCredentialRequest(filterByAuthorizedAccounts: Boolean, flowType: SignInFlowType) {
         val currentActivity = reactApplicationContext.currentActivity ?: return
 
-        val googleIdOption = GetGoogleIdOption.Builder()
-            .setServerClientId(webClientId!!)
-            .setFilterByAuthorizedAccounts(filterByAuthorizedAccounts)
-            .build()
+        val credentialOption = if (flowType == SignInFlowType.EXPLICIT) {
+            GetSignInWithGoogleOption.Builder(webClientId!!)
+                .apply { pendingNonce?.let { setNonce(it) } }
+                .apply { hostedDomain?.let { setHostedDomainFilter(it) } }
+                .build()
+        } else {
+            // The bottom sheet has no hosted domain filter or account hint; the JS layer
+            // rejects other domains and loginHint has no effect on Android
+            GetGoogleIdOption.Builder()
+                .setServerClientId(webClientId!!)
+                .setFilterByAuthorizedAccounts(filterByAuthorizedAccounts)
+                .setAutoSelectEnabled(pendingAutoSelect && (flowType == SignInFlowType.INTERACTIVE || flowType == SignInFlowType.TOKEN_REFRESH))
+                .apply { pendingNonce?.let { setNonce(it) } }
+                .build()
+        }
 
         val request = GetCredentialRequest.Builder()
-            .addCredentialOption(googleIdOption)
+            .addCredentialOption(credentialOption)
+            .setPreferImmediatelyAvailableCredentials(pendingPreferImmediatelyAvailable)
             .build()
 
-        val filterType = if (filterByAuthorizedAccounts) "authorized accounts" else "all accounts"
+        val filterType = when {
+            flowType == SignInFlowType.EXPLICIT -> "sign in with google button"
+            filterByAuthorizedAccounts -> "authorized accounts"
+            else -> "all accounts"
+        }
         Log.d(TAG, "Starting credential request with filter: $filterType (${flowType.name})")
 
         // Use coroutines for async operation
@@ -248,9 +423,7 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
                     is GoogleIdTokenCredential -> {
                         Log.d(TAG, "Google ID token credential received (instanceof) for ${flowType.name}")
                         
-                        val response = createResponseForFlowType(credential, flowType)
-                        pendingPromise?.resolve(response)
-                        pendingPromise = null
+                        completeCredentialFlow(credential, flowType)
                     }
                     else -> {
                         // Handle Google ID Token credential by type string
@@ -258,9 +431,7 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
                             Log.d(TAG, "Google ID token credential received (by type) for ${flowType.name}")
                             try {
                                 val googleCredential = GoogleIdTokenCredential.createFrom(credential.data)
-                                val response = createResponseForFlowType(googleCredential, flowType)
-                                pendingPromise?.resolve(response)
-                                pendingPromise = null
+                                completeCredentialFlow(googleCredential, flowType)
                             } catch (parseError: Exception) {
                                 Log.e(TAG, "Failed to parse Google credential for ${flowType.name}", parseError)
                                 val errorCode = if (flowType == SignInFlowType.TOKEN_REFRESH) ERROR_TOKEN_REFRESH_ERROR else ERROR_CREDENTIAL_PARSE_ERROR
@@ -285,23 +456,159 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Resolve the pending promise for a received credential.
+     * Token refreshes and sign-ins that need extra scopes or offline access go through
+     * the Authorization API first, since Credential Manager only returns an ID token.
+     */
+    private fun completeCredentialFlow(credential: GoogleIdTokenCredential, flowType: SignInFlowType) {
+        val needsAuthorization = when (flowType) {
+            SignInFlowType.TOKEN_REFRESH -> true
+            SignInFlowType.INTERACTIVE, SignInFlowType.EXPLICIT -> requiresAuthorization()
+            SignInFlowType.SILENT -> false
+        }
+
+        if (!needsAuthorization) {
+            pendingPromise?.resolve(createResponseForFlowType(credential, flowType, null))
+            pendingPromise = null
+            return
+        }
+
+        performAuthorization(
+            scopes = configuredScopes,
+            withOfflineAccess = offlineAccess && flowType != SignInFlowType.TOKEN_REFRESH,
+            // Authorize the account the user picked, so access token and ID token match
+            accountEmail = credential.id,
+            // A non-interactive token refresh asks for immediately available credentials only
+            allowConsent = !(flowType == SignInFlowType.TOKEN_REFRESH && pendingPreferImmediatelyAvailable),
+            onSuccess = { authorizationResult ->
+                pendingPromise?.resolve(createResponseForFlowType(credential, flowType, authorizationResult))
+                pendingPromise = null
+            },
+            onError = { errorCode, message ->
+                clearPendingPromiseWithError(errorCode, message)
+            }
+        )
+    }
+
+    /**
+     * Request OAuth authorization for the given scopes using the Google Identity Authorization API.
+     * Launches the consent screen when the user has not granted the scopes yet.
+     */
+    private fun performAuthorization(
+        scopes: List<String>,
+        withOfflineAccess: Boolean,
+        accountEmail: String? = null,
+        allowConsent: Boolean = true,
+        onSuccess: (AuthorizationResult) -> Unit,
+        onError: (errorCode: String, message: String) -> Unit
+    ) {
+        val currentActivity = reactApplicationContext.currentActivity
+        if (currentActivity == null) {
+            onError(ERROR_NO_ACTIVITY, "No current activity found")
+            return
+        }
+
+        val authorizationRequest = AuthorizationRequest.builder()
+            .setRequestedScopes(scopes.map { Scope(it) })
+            .apply {
+                if (withOfflineAccess) {
+                    requestOfflineAccess(webClientId!!)
+                }
+                hostedDomain?.let { filterByHostedDomain(it) }
+                accountEmail?.let { setAccount(Account(it, GOOGLE_ACCOUNT_TYPE)) }
+            }
+            .build()
+
+        Log.d(TAG, "Requesting authorization for scopes: $scopes (offline access: $withOfflineAccess)")
+
+        Identity.getAuthorizationClient(currentActivity)
+            .authorize(authorizationRequest)
+            .addOnSuccessListener { result ->
+                val pendingIntent = result.pendingIntent
+                if (result.hasResolution() && !allowConsent) {
+                    Log.d(TAG, "Authorization requires user consent, which this request may not show")
+                    onError(ERROR_NO_SAVED_CREDENTIAL, "The configured scopes need the user's consent; call getTokens() interactively to show it")
+                } else if (result.hasResolution() && pendingIntent != null) {
+                    Log.d(TAG, "Authorization requires user consent - launching consent screen")
+                    try {
+                        pendingAuthorization = AuthorizationCallback(onSuccess, onError)
+                        currentActivity.startIntentSenderForResult(
+                            pendingIntent.intentSender,
+                            AUTHORIZATION_REQUEST_CODE,
+                            null,
+                            0,
+                            0,
+                            0,
+                            null
+                        )
+                    } catch (e: IntentSender.SendIntentException) {
+                        Log.e(TAG, "Failed to launch authorization consent screen", e)
+                        pendingAuthorization = null
+                        onError(ERROR_AUTHORIZATION_ERROR, "Failed to launch authorization consent screen: ${e.message}")
+                    }
+                } else {
+                    Log.d(TAG, "Authorization granted without user interaction")
+                    onSuccess(result)
+                }
+            }
+            .addOnFailureListener { e ->
+                Log.e(TAG, "Authorization request failed", e)
+                onError(ERROR_AUTHORIZATION_ERROR, "Authorization failed: ${e.message}")
+            }
+    }
+
+    /**
+     * Handle the result of the authorization consent screen
+     */
+    private fun handleAuthorizationActivityResult(activity: Activity, resultCode: Int, data: Intent?) {
+        val callback = pendingAuthorization ?: return
+        pendingAuthorization = null
+
+        if (resultCode != Activity.RESULT_OK) {
+            Log.d(TAG, "Authorization consent was not granted (resultCode: $resultCode)")
+            callback.onError(ERROR_AUTHORIZATION_DENIED, "The user did not grant the requested scopes")
+            return
+        }
+
+        try {
+            val result = Identity.getAuthorizationClient(activity).getAuthorizationResultFromIntent(data)
+            Log.d(TAG, "Authorization granted by user")
+            callback.onSuccess(result)
+        } catch (e: ApiException) {
+            Log.e(TAG, "Failed to read authorization result", e)
+            callback.onError(ERROR_AUTHORIZATION_ERROR, "Authorization failed: ${e.message}")
+        }
+    }
+
+    /**
+     * Callbacks for an authorization request waiting on the consent screen
+     */
+    private class AuthorizationCallback(
+        val onSuccess: (AuthorizationResult) -> Unit,
+        val onError: (errorCode: String, message: String) -> Unit
+    )
+
     /**
      * Create appropriate response based on flow type
      */
-    private fun createResponseForFlowType(credential: GoogleIdTokenCredential, flowType: SignInFlowType): WritableMap {
+    private fun createResponseForFlowType(
+        credential: GoogleIdTokenCredential,
+        flowType: SignInFlowType,
+        authorizationResult: AuthorizationResult?
+    ): WritableMap {
         return when (flowType) {
             SignInFlowType.TOKEN_REFRESH -> {
                 // For token refresh, return tokens format
                 Arguments.createMap().apply {
                     putString("idToken", credential.idToken)
-                    // Note: Credential Manager doesn't provide access tokens
-                    // Access tokens would need to be obtained separately via Google APIs
-                    putString("accessToken", "")
+                    // Credential Manager only provides ID tokens - the access token comes from the Authorization API
+                    putString("accessToken", authorizationResult?.accessToken ?: "")
                 }
             }
             else -> {
                 // For sign-in flows, return user info format
-                createSignInResponse(credential)
+                createSignInResponse(credential, authorizationResult)
             }
         }
     }
@@ -310,27 +617,52 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
      * Handle credential exceptions based on flow type
      */
     private fun handleCredentialException(e: GetCredentialException, filterByAuthorizedAccounts: Boolean, flowType: SignInFlowType) {
+        // These mean the same thing for every flow type, so report them with the shared codes
+        if (e is GetCredentialProviderConfigurationException) {
+            clearPendingPromiseWithError(ERROR_PLAY_SERVICES_NOT_AVAILABLE, "Google Play Services is not available or needs an update: ${e.message}")
+            return
+        }
+        if (e is GetCredentialCancellationException) {
+            clearPendingPromiseWithError(ERROR_USER_CANCELLED, "The user cancelled the sign-in flow")
+            return
+        }
+
         when (flowType) {
             SignInFlowType.INTERACTIVE -> {
-                // Interactive sign-in can retry with all accounts if authorized accounts fail
-                if (filterByAuthorizedAccounts && e.type == NO_CREDENTIAL_EXCEPTION_TYPE) {
-                    Log.d(TAG, "No authorized accounts found, retrying with all accounts")
-                    performCredentialRequest(filterByAuthorizedAccounts = false, flowType = flowType)
-                } else {
-                    handleNoAccountsError(e)
+                val noCredential = e.type == NO_CREDENTIAL_EXCEPTION_TYPE || e is NoCredentialException
+                when {
+                    // The default filter retries with all accounts if authorized accounts fail
+                    pendingAccountFilter == AccountFilter.AUTHORIZED_THEN_ALL && filterByAuthorizedAccounts && noCredential -> {
+                        Log.d(TAG, "No authorized accounts found, retrying with all accounts")
+                        performCredentialRequest(filterByAuthorizedAccounts = false, flowType = flowType)
+                    }
+                    // An explicit filter leaves the next step (createAccount / explicit sign-in) to JS
+                    pendingAccountFilter != AccountFilter.AUTHORIZED_THEN_ALL && noCredential -> {
+                        clearPendingPromiseWithError(ERROR_NO_SAVED_CREDENTIAL, "No saved credential matched the ${pendingAccountFilter.value} account filter")
+                    }
+                    // The caller asked for no UI, so don't open the add account settings
+                    pendingPreferImmediatelyAvailable && noCredential -> {
+                        clearPendingPromiseWithError(ERROR_NO_SAVED_CREDENTIAL, "No credential is immediately available on this device")
+                    }
+                    else -> handleNoAccountsError(e)
                 }
             }
+            SignInFlowType.EXPLICIT -> handleNoAccountsError(e)
             SignInFlowType.SILENT -> {
                 // Silent sign-in returns SIGN_IN_REQUIRED if no authorized accounts
                 if (e.type == NO_CREDENTIAL_EXCEPTION_TYPE || e is NoCredentialException) {
-                    clearPendingPromiseWithError("SIGN_IN_REQUIRED", "The user has never signed in before, or they have since signed out.")
+                    clearPendingPromiseWithError(ERROR_SIGN_IN_REQUIRED, "The user has never signed in before, or they have since signed out.")
                 } else {
                     clearPendingPromiseWithError(ERROR_SIGN_IN_ERROR, "Silent sign-in failed: ${e.message}")
                 }
             }
             SignInFlowType.TOKEN_REFRESH -> {
-                // Token refresh returns NO_USER if no authorized accounts
-                if (e.type == NO_CREDENTIAL_EXCEPTION_TYPE || e is NoCredentialException) {
+                // Token refresh returns NO_USER if no authorized accounts. Without UI, no
+                // credential may only mean that one needs the account picker.
+                val noCredential = e.type == NO_CREDENTIAL_EXCEPTION_TYPE || e is NoCredentialException
+                if (noCredential && pendingPreferImmediatelyAvailable) {
+                    clearPendingPromiseWithError(ERROR_NO_SAVED_CREDENTIAL, "No credential is immediately available for a non-interactive token refresh")
+                } else if (noCredential) {
                     clearPendingPromiseWithError(ERROR_NO_USER, "No user signed in. Please sign in first.")
                 } else {
                     clearPendingPromiseWithError(ERROR_TOKEN_REFRESH_ERROR, "Token refresh failed: ${e.message}")
@@ -381,31 +713,120 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Signs the user out but keeps the configuration, so the next signIn() works without
+     * calling configure() again. Clears Credential Manager's state so One Tap stops
+     * auto-selecting the account that just signed out.
+     */
 	override fun signOut(promise: Promise) {
         try {
             Log.d(TAG, "Sign-out requested")
             
-            // If there's a pending sign-in, reject it first
-            pendingPromise?.reject(ERROR_SIGN_OUT_REQUESTED, "Sign-out was requested")
+            clearSignInState("Sign-out was requested")
             
-            // Clear stored authentication state
-            webClientId = null
-            credentialManager = null
-            pendingPromise = null
+            val credentialManager = this.credentialManager
+            if (credentialManager == null) {
+                Log.d(TAG, "Sign-out completed successfully")
+                promise.resolve(null)
+                return
+            }
             
-            Log.d(TAG, "Sign-out completed successfully")
-            promise.resolve(null)
+            CoroutineScope(Dispatchers.Main).launch {
+                try {
+                    credentialManager.clearCredentialState(ClearCredentialStateRequest())
+                } catch (e: Exception) {
+                    // The user is signed out either way; the account may just be offered first next time
+                    Log.w(TAG, "Failed to clear credential state during sign-out", e)
+                }
+                Log.d(TAG, "Sign-out completed successfully")
+                promise.resolve(null)
+            }
         } catch (e: Exception) {
             Log.e(TAG, "Error during sign-out", e)
             promise.reject(ERROR_SIGN_OUT_ERROR, "Sign-out failed: ${e.message}")
         }
     }
 
+    /**
+     * Rejects any pending request with SIGN_OUT_REQUESTED and deletes the persisted session
+     */
+    private fun clearSignInState(reason: String) {
+        pendingPromise?.reject(ERROR_SIGN_OUT_REQUESTED, reason)
+        pendingPromise = null
+        pendingNonce = null
+        pendingAuthorization = null
+        sessionPreferences.edit().remove(SESSION_KEY).apply()
+    }
+
+    /**
+     * Revokes the scopes this app was granted for the account through the Authorization API,
+     * then clears Credential Manager's state so the account is not auto-selected again.
+     * Credential Manager does not report which account signed in, so the JS layer passes it.
+     */
+	override fun revokeAccess(accountEmail: String?, promise: Promise) {
+        Log.d(TAG, "Revoke access requested")
+
+        val credentialManager = this.credentialManager
+        if (webClientId == null || credentialManager == null) {
+            promise.reject(ERROR_NOT_CONFIGURED, "Google Sign-In not configured. Call configure() first.")
+            return
+        }
+        if (accountEmail.isNullOrBlank()) {
+            promise.reject(ERROR_NO_USER, "No user signed in. Please sign in first.")
+            return
+        }
+
+        try {
+            val request = RevokeAccessRequest.builder()
+                .setAccount(Account(accountEmail, GOOGLE_ACCOUNT_TYPE))
+                .setScopes(configuredScopes.map { Scope(it) })
+                .build()
+
+            Identity.getAuthorizationClient(reactApplicationContext)
+                .revokeAccess(request)
+                .addOnSuccessListener {
+                    CoroutineScope(Dispatchers.Main).launch {
+                        try {
+                            credentialManager.clearCredentialState(ClearCredentialStateRequest())
+                            clearSignInState("Access was revoked")
+                            Log.d(TAG, "Access revoked successfully")
+                            promise.resolve(null)
+                        } catch (e: Exception) {
+                            Log.e(TAG, "Failed to clear credential state after revoking access", e)
+                            promise.reject(ERROR_REVOKE_ACCESS_ERROR, "Access was revoked, but clearing credential state failed: ${e.message}", e)
+                        }
+                    }
+                }
+                .addOnFailureListener { e ->
+                    Log.e(TAG, "Revoke access request failed", e)
+                    promise.reject(ERROR_REVOKE_ACCESS_ERROR, "Revoking access failed: ${e.message}", e)
+                }
+        } catch (e: Exception) {
+            Log.e(TAG, "Exception in revokeAccess", e)
+            promise.reject(ERROR_REVOKE_ACCESS_ERROR, "Revoking access failed: ${e.message}", e)
+        }
+    }
+
 	override fun isSignedIn(promise: Promise) {
-        // With Credential Manager, we don't maintain persistent sign-in state
-        // The app should manage this through its own authentication state
-        Log.d(TAG, "isSignedIn called - returning false (app should manage auth state)")
-        promise.resolve(false)
+        // Credential Manager keeps no sign-in state, so the persisted session is the only record
+        val isSignedIn = sessionPreferences.contains(SESSION_KEY)
+        Log.d(TAG, "isSignedIn called - user status: ${if (isSignedIn) "signed in" else "signed out"}")
+        promise.resolve(isSignedIn)
+    }
+
+	override fun readSession(promise: Promise) {
+        promise.resolve(sessionPreferences.getString(SESSION_KEY, null))
+    }
+
+	override fun writeSession(session: String?, promise: Promise) {
+        val editor = sessionPreferences.edit()
+        if (session == null) {
+            editor.remove(SESSION_KEY)
+        } else {
+            editor.putString(SESSION_KEY, session)
+        }
+        editor.apply()
+        promise.resolve(null)
     }
 
     /**
@@ -417,7 +838,10 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
      * **Behavior**:
      * - Triggers a new sign-in flow with [SignInFlowType.TOKEN_REFRESH]
      * - Uses Credential Manager to request fresh credentials from Google
-     * - May prompt the user for account selection or authentication
+     * - May prompt the user for account selection or authentication. When `interactive`
+     *   is false it auto-selects the account, never shows the consent screen and rejects
+     *   with NO_SAVED_CREDENTIAL when no credential is immediately available; Credential
+     *   Manager still shows the account picker when several accounts authorized the app
      * - Tokens are not persisted by this module (app should manage token storage)
      * 
      * **When to use**:
@@ -429,24 +853,86 @@ class GoogleSigninModernModule(reactContext: ReactApplicationContext) :
      * by this module. Apps are responsible for managing their own authentication state and
      * token persistence as needed.
      * 
+     * @param options Token options; `interactive` says whether UI may be shown
      * @param promise Promise that resolves with fresh [GoogleSignInTokens] or rejects on failure
      */
-    override fun getTokens(promise: Promise) {
+    override fun getTokens(options: ReadableMap, promise: Promise) {
         // Initiating fresh credential request flow via Credential Manager
         Log.i(TAG, "getTokens called - initiating fresh credential refresh flow")
+        val interactive = !options.hasKey("interactive") || options.isNull("interactive") || options.getBoolean("interactive")
         
         performSignIn(
             promise = promise,
             flowType = SignInFlowType.TOKEN_REFRESH,
-            logMessage = "Token refresh request initiated"
+            logMessage = if (interactive) "Token refresh request initiated" else "Non-interactive token refresh request initiated",
+            autoSelect = !interactive,
+            preferImmediatelyAvailable = !interactive
         )
     }
 
+    /**
+     * Requests additional OAuth scopes from the user (incremental authorization).
+     *
+     * Uses the Google Identity Authorization API, which only shows a consent screen for
+     * scopes that have not been granted yet. Rejects with AUTHORIZATION_DENIED when the
+     * user declines the consent screen.
+     */
+    override fun requestAuthorization(request: ReadableMap, promise: Promise) {
+        try {
+            Log.d(TAG, "Authorization request initiated")
+
+            if (webClientId == null) {
+                promise.reject(ERROR_NOT_CONFIGURED, "Google Sign-In not configured. Call configure() first.")
+                return
+            }
+
+            val scopes = readStringList(request, "scopes")
+            if (scopes.isNullOrEmpty()) {
+                promise.reject(ERROR_AUTHORIZATION_ERROR, "At least one scope is required")
+                return
+            }
+
+            if (pendingPromise != null) {
+                Log.w(TAG, "Sign-in already in progress, rejecting authorization request")
+                promise.reject(ERROR_SIGN_IN_IN_PROGRESS, "Sign-in already in progress")
+                return
+            }
+
+            pendingPromise = promise
+
+            performAuthorization(
+                scopes = scopes,
+                withOfflineAccess = request.hasKey("offlineAccess") && request.getBoolean("offlineAccess"),
+                onSuccess = { authorizationResult ->
+                    pendingPromise?.resolve(createAuthorizationResponse(authorizationResult))
+                    pendingPromise = null
+                },
+                onError = { errorCode, message ->
+                    clearPendingPromiseWithError(errorCode, message)
+                }
+            )
+        } catch (e: Exception) {
+            Log.e(TAG, "Exception in requestAuthorization", e)
+            clearPendingPromiseWithError(ERROR_AUTHORIZATION_ERROR, "Authorization failed: ${e.message}", promise)
+        }
+    }
+
+    private fun createAuthorizationResponse(result: AuthorizationResult): WritableMap {
+        return Arguments.createMap().apply {
+            putString("accessToken", result.accessToken ?: "")
+            putArray("grantedScopes", Arguments.fromList(result.grantedScopes))
+            putString("serverAuthCode", result.serverAuthCode)
+        }
+    }
+
     override fun invalidate() {
         super.invalidate()
         Log.d(TAG, "Module invalidated - cleaning up resources")
         pendingPromise?.reject(ERROR_MODULE_DESTROYED, "Module was destroyed")
         pendingPromise = null
+        pendingNonce = null
+        pendingAuthorization = null
+        reactApplicationContext.removeActivityEventListener(activityEventListener)
         credentialManager = null
         webClientId = null
     }
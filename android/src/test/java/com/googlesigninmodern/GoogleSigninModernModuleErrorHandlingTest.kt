@@ -1,11 +1,14 @@
 package com.googlesigninmodern
 
 import android.app.Activity
+import android.content.Context
+import android.os.Looper
 import androidx.credentials.CredentialManager
 import androidx.credentials.GetCredentialRequest
 import androidx.credentials.exceptions.GetCredentialException
 import androidx.credentials.exceptions.NoCredentialException
 import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.JavaOnlyMap
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.WritableMap
@@ -20,6 +23,8 @@ import org.mockito.kotlin.any
 import org.mockito.kotlin.verify
 import org.mockito.kotlin.whenever
 import org.robolectric.RobolectricTestRunner
+import org.robolectric.RuntimeEnvironment
+import org.robolectric.Shadows.shadowOf
 import org.robolectric.annotation.Config
 import java.util.concurrent.CompletableFuture
 
@@ -57,6 +62,9 @@ class GoogleSigninModernModuleErrorHandlingTest {
         module = GoogleSigninModernModule(mockReactContext)
         whenever(mockReactContext.currentActivity).thenReturn(mockActivity)
         whenever(mockReactContext.packageName).thenReturn("com.test.package")
+        whenever(mockReactContext.getSharedPreferences(anyString(), anyInt())).thenReturn(
+            RuntimeEnvironment.getApplication().getSharedPreferences("test", Context.MODE_PRIVATE)
+        )
     }
 
     // ========================================
@@ -66,7 +74,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
     @Test
     fun `configure should reject with blank web client ID`() {
         // When
-        module.configure("", mockPromise)
+        module.configure(configOf(""), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -85,7 +93,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
                 whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
 
                 // When
-                module.configure("malformed-client-id", mockPromise)
+                module.configure(configOf("malformed-client-id"), mockPromise)
 
                 // Then - should still resolve despite warning
                 verify(mockPromise).resolve(null)
@@ -100,7 +108,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
     @Test
     fun `signIn should reject when not configured`() {
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -117,10 +125,10 @@ class GoogleSigninModernModuleErrorHandlingTest {
             
             mockStaticCredentialManager {
                 whenever(CredentialManager.create(mockReactContext)).thenReturn(null)
-                module.configure(VALID_CLIENT_ID, mock())
+                module.configure(configOf(VALID_CLIENT_ID), mock())
 
                 // When
-                module.signIn(mockPromise)
+                module.signIn(JavaOnlyMap(), mockPromise)
 
                 // Then
                 verify(mockPromise).reject(
@@ -138,7 +146,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
         whenever(mockReactContext.currentActivity).thenReturn(null)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -155,10 +163,10 @@ class GoogleSigninModernModuleErrorHandlingTest {
         val secondPromise = mock<Promise>()
 
         // Start first request
-        module.signIn(firstPromise)
+        module.signIn(JavaOnlyMap(), firstPromise)
 
         // When - start second request while first is pending
-        module.signIn(secondPromise)
+        module.signIn(JavaOnlyMap(), secondPromise)
 
         // Then - second request should be rejected
         verify(secondPromise).reject(
@@ -183,7 +191,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
             .thenReturn(failedFuture)
 
         // When
-        module.signInSilently(mockPromise)
+        module.signInSilently(JavaOnlyMap(), mockPromise)
 
         // Then - verify credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -201,7 +209,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
             .thenReturn(failedFuture)
 
         // When
-        module.getTokens(mockPromise)
+        module.getTokens(JavaOnlyMap(), mockPromise)
 
         // Then - verify credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -222,7 +230,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
             .thenReturn(failedFuture)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - verify credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -239,10 +247,11 @@ class GoogleSigninModernModuleErrorHandlingTest {
         val pendingPromise = mock<Promise>()
         
         // Start sign in operation (creates pending state)
-        module.signIn(pendingPromise)
+        module.signIn(JavaOnlyMap(), pendingPromise)
 
         // When
         module.signOut(mockPromise)
+        shadowOf(Looper.getMainLooper()).idle()
 
         // Then - sign out should succeed and cancel pending operation
         verify(mockPromise).resolve(null)
@@ -263,7 +272,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
         val pendingPromise = mock<Promise>()
         
         // Create pending operation
-        module.signIn(pendingPromise)
+        module.signIn(JavaOnlyMap(), pendingPromise)
 
         // When
         module.invalidate()
@@ -282,7 +291,7 @@ class GoogleSigninModernModuleErrorHandlingTest {
         module.invalidate()
 
         // When - try to use module after invalidation
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - should reject due to not configured (internal state cleared)
         verify(mockPromise).reject(
@@ -301,11 +310,18 @@ class GoogleSigninModernModuleErrorHandlingTest {
             
             mockStaticCredentialManager {
                 whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
-                module.configure(VALID_CLIENT_ID, mock())
+                module.configure(configOf(VALID_CLIENT_ID), mock())
             }
         }
     }
 
+    /**
+     * Builds the configuration map passed to configure() from JS
+     */
+    private fun configOf(webClientId: String): JavaOnlyMap {
+        return JavaOnlyMap.of("webClientId", webClientId)
+    }
+
     private fun <T> mockStaticCredentialManager(block: MockedStatic<CredentialManager>.() -> T): T {
         return mockStatic(CredentialManager::class.java).use { mockedStatic ->
             mockedStatic.block()
@@ -6,11 +6,14 @@ import androidx.credentials.GetCredentialRequest
 import androidx.credentials.GetCredentialResponse
 import androidx.credentials.exceptions.NoCredentialException
 import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.JavaOnlyMap
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.WritableMap
 import com.google.android.libraries.identity.googleid.GetGoogleIdOption
 import com.google.android.libraries.identity.googleid.GoogleIdTokenCredential
+import org.junit.Assert.assertFalse
+import org.junit.Assert.assertTrue
 import org.junit.Before
 import org.junit.Test
 import org.junit.runner.RunWith
@@ -104,18 +107,19 @@ class GoogleSigninModernModuleFlowTest {
                 whenever(GetGoogleIdOption.Builder()).thenReturn(mockBuilder)
                 whenever(mockBuilder.setServerClientId(any<String>())).thenReturn(mockBuilder)
                 whenever(mockBuilder.setFilterByAuthorizedAccounts(any<Boolean>())).thenReturn(mockBuilder)
+                whenever(mockBuilder.setAutoSelectEnabled(any<Boolean>())).thenReturn(mockBuilder)
                 whenever(mockBuilder.build()).thenReturn(mockOption)
                 
                 mockStaticCredentialManager {
                     whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
-                    module.configure(VALID_CLIENT_ID, mock())
+                    module.configure(configOf(VALID_CLIENT_ID), mock())
                     
                     val successFuture = CompletableFuture.completedFuture(mockGetCredentialResponse)
                     whenever(mockCredentialManager.getCredential(any<GetCredentialRequest>(), any<Activity>()))
                         .thenReturn(successFuture)
 
                     // When
-                    module.signIn(mockPromise)
+                    module.signIn(JavaOnlyMap(), mockPromise)
 
                     // Then - verify credential manager was called and builder was configured correctly
                     verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), eq(mockActivity))
@@ -143,13 +147,34 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(failedFuture, successFuture)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - verify two calls were made (authorized accounts, then all accounts)
         verify(mockCredentialManager, times(2))
             .getCredential(any<GetCredentialRequest>(), any<Activity>())
     }
 
+    @Test
+    fun `signIn should pass autoSelect and preferImmediatelyAvailableCredentials to the request`() {
+        // Given
+        setupConfiguredModule()
+        whenever(mockCredentialManager.getCredential(any<GetCredentialRequest>(), any<Activity>()))
+            .thenReturn(CompletableFuture.completedFuture(mockGetCredentialResponse))
+
+        // When
+        module.signIn(
+            JavaOnlyMap.of("autoSelect", true, "preferImmediatelyAvailableCredentials", true),
+            mockPromise
+        )
+
+        // Then
+        val requestCaptor = argumentCaptor<GetCredentialRequest>()
+        verify(mockCredentialManager).getCredential(requestCaptor.capture(), any<Activity>())
+        val request = requestCaptor.firstValue
+        assertTrue(request.preferImmediatelyAvailableCredentials)
+        assertTrue((request.credentialOptions.single() as GetGoogleIdOption).autoSelectEnabled)
+    }
+
     @Test
     fun `signIn should trigger add account intent when no Google accounts available`() {
         // Given
@@ -164,7 +189,7 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(failedFuture, failedFuture)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - verify fallback attempt was made
         verify(mockCredentialManager, times(2))
@@ -184,7 +209,7 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(successFuture)
 
         // When
-        module.signInSilently(mockPromise)
+        module.signInSilently(JavaOnlyMap(), mockPromise)
 
         // Then - verify only one call was made (no fallback for silent)
         verify(mockCredentialManager, times(1))
@@ -203,7 +228,7 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(failedFuture)
 
         // When
-        module.signInSilently(mockPromise)
+        module.signInSilently(JavaOnlyMap(), mockPromise)
 
         // Then - verify only one call was made (no fallback)
         verify(mockCredentialManager, times(1))
@@ -223,13 +248,49 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(successFuture)
 
         // When
-        module.getTokens(mockPromise)
+        module.getTokens(JavaOnlyMap(), mockPromise)
 
         // Then - verify only one call was made (no fallback for token refresh)
         verify(mockCredentialManager, times(1))
             .getCredential(any<GetCredentialRequest>(), any<Activity>())
     }
 
+    @Test
+    fun `getTokens should auto-select an immediately available credential when not interactive`() {
+        // Given
+        setupConfiguredModule()
+        whenever(mockCredentialManager.getCredential(any<GetCredentialRequest>(), any<Activity>()))
+            .thenReturn(CompletableFuture.completedFuture(mockGetCredentialResponse))
+
+        // When
+        module.getTokens(JavaOnlyMap.of("interactive", false), mockPromise)
+
+        // Then
+        val requestCaptor = argumentCaptor<GetCredentialRequest>()
+        verify(mockCredentialManager).getCredential(requestCaptor.capture(), any<Activity>())
+        val request = requestCaptor.firstValue
+        assertTrue(request.preferImmediatelyAvailableCredentials)
+        assertTrue((request.credentialOptions.single() as GetGoogleIdOption).autoSelectEnabled)
+    }
+
+    @Test
+    fun `getTokens should allow UI when interactive`() {
+        // Given
+        setupConfiguredModule()
+        whenever(mockCredentialManager.getCredential(any<GetCredentialRequest>(), any<Activity>()))
+            .thenReturn(CompletableFuture.completedFuture(mockGetCredentialResponse))
+
+        // When
+        module.getTokens(JavaOnlyMap.of("interactive", true), mockPromise)
+
+        // Then
+        val requestCaptor = argumentCaptor<GetCredentialRequest>()
+        verify(mockCredentialManager).getCredential(requestCaptor.capture(), any<Activity>())
+        val request = requestCaptor.firstValue
+        assertFalse(request.preferImmediatelyAvailableCredentials)
+        assertFalse((request.credentialOptions.single() as GetGoogleIdOption).autoSelectEnabled)
+    }
+
     @Test
     fun `getTokens should not fallback when no user signed in`() {
         // Given
@@ -242,7 +303,7 @@ class GoogleSigninModernModuleFlowTest {
             .thenReturn(failedFuture)
 
         // When
-        module.getTokens(mockPromise)
+        module.getTokens(JavaOnlyMap(), mockPromise)
 
         // Then - verify only one call was made
         verify(mockCredentialManager, times(1))
@@ -262,11 +323,11 @@ class GoogleSigninModernModuleFlowTest {
         val tokensPromise = mock<Promise>()
 
         // Start signIn (will be pending)
-        module.signIn(signInPromise)
+        module.signIn(JavaOnlyMap(), signInPromise)
 
         // When - attempt other operations while signIn is pending
-        module.signInSilently(silentPromise)
-        module.getTokens(tokensPromise)
+        module.signInSilently(JavaOnlyMap(), silentPromise)
+        module.getTokens(JavaOnlyMap(), tokensPromise)
 
         // Then - subsequent operations should be rejected
         verify(silentPromise).reject(
@@ -287,7 +348,7 @@ class GoogleSigninModernModuleFlowTest {
             
             mockStaticCredentialManager {
                 whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
-                module.configure(VALID_CLIENT_ID, mock())
+                module.configure(configOf(VALID_CLIENT_ID), mock())
                 
                 val firstPromise = mock<Promise>()
                 val secondPromise = mock<Promise>()
@@ -297,11 +358,11 @@ class GoogleSigninModernModuleFlowTest {
                     .thenReturn(successFuture)
 
                 // Start first operation and verify it completes
-                module.signIn(firstPromise)
+                module.signIn(JavaOnlyMap(), firstPromise)
                 verify(firstPromise).resolve(any<WritableMap>())
 
                 // When - start second operation (should be allowed after first completes)
-                module.signInSilently(secondPromise)
+                module.signInSilently(JavaOnlyMap(), secondPromise)
 
                 // Then - both operations should be processed
                 verify(mockCredentialManager, times(2))
@@ -328,13 +389,14 @@ class GoogleSigninModernModuleFlowTest {
             whenever(GetGoogleIdOption.Builder()).thenReturn(mockBuilder)
             whenever(mockBuilder.setServerClientId(any<String>())).thenReturn(mockBuilder)
             whenever(mockBuilder.setFilterByAuthorizedAccounts(any<Boolean>())).thenReturn(mockBuilder)
+            whenever(mockBuilder.setAutoSelectEnabled(any<Boolean>())).thenReturn(mockBuilder)
             whenever(mockBuilder.build()).thenReturn(mockOption)
             
             whenever(mockCredentialManager.getCredential(any<GetCredentialRequest>(), any<Activity>()))
                 .thenReturn(successFuture)
 
             // When
-            module.signIn(mockPromise)
+            module.signIn(JavaOnlyMap(), mockPromise)
 
             // Then - verify correct client ID was used
             verify(mockBuilder).setServerClientId(VALID_CLIENT_ID)
@@ -361,7 +423,7 @@ class GoogleSigninModernModuleFlowTest {
             whenever(userMap.putString(any<String>(), any<String?>())).thenReturn(userMap)
 
             // When
-            module.signIn(mockPromise)
+            module.signIn(JavaOnlyMap(), mockPromise)
 
             // Then - verify response creation methods were called
             verify(Arguments, times(2)).createMap()
@@ -381,7 +443,7 @@ class GoogleSigninModernModuleFlowTest {
             whenever(mockWritableMap.putString(any<String>(), any<String?>())).thenReturn(mockWritableMap)
 
             // When
-            module.getTokens(mockPromise)
+            module.getTokens(JavaOnlyMap(), mockPromise)
 
             // Then - verify response creation was attempted
             verify(Arguments).createMap()
@@ -397,10 +459,17 @@ class GoogleSigninModernModuleFlowTest {
         // Use mockStatic blocks directly in test methods for proper lifecycle management
         mockStaticCredentialManager {
             whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
-            module.configure(VALID_CLIENT_ID, mock())
+            module.configure(configOf(VALID_CLIENT_ID), mock())
         }
     }
 
+    /**
+     * Builds the configuration map passed to configure() from JS
+     */
+    private fun configOf(webClientId: String): JavaOnlyMap {
+        return JavaOnlyMap.of("webClientId", webClientId)
+    }
+
     private fun <T> mockStaticCredentialManager(block: MockedStatic<CredentialManager>.() -> T): T {
         return mockStatic(CredentialManager::class.java).use { mockedStatic ->
             mockedStatic.block()
@@ -1,12 +1,16 @@
 package com.googlesigninmodern
 
 import android.app.Activity
+import android.content.Context
+import android.os.Looper
 import androidx.credentials.CredentialManager
 import androidx.credentials.GetCredentialRequest
 import androidx.credentials.GetCredentialResponse
 import androidx.credentials.exceptions.GetCredentialException
 import androidx.credentials.exceptions.NoCredentialException
 import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.JavaOnlyArray
+import com.facebook.react.bridge.JavaOnlyMap
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.WritableMap
@@ -23,9 +27,13 @@ import org.mockito.Mockito.*
 import org.mockito.MockitoAnnotations
 import org.mockito.kotlin.any
 import org.mockito.kotlin.doNothing
+import org.mockito.kotlin.stub
 import org.mockito.kotlin.verify
+import org.mockito.kotlin.verifyBlocking
 import org.mockito.kotlin.whenever
 import org.robolectric.RobolectricTestRunner
+import org.robolectric.RuntimeEnvironment
+import org.robolectric.Shadows.shadowOf
 import org.robolectric.annotation.Config
 import java.util.concurrent.CompletableFuture
 
@@ -79,6 +87,9 @@ class GoogleSigninModernModuleTest {
         // Setup default mocks
         whenever(mockReactContext.currentActivity).thenReturn(mockActivity)
         whenever(mockReactContext.packageName).thenReturn("com.test.package")
+        whenever(mockReactContext.getSharedPreferences(anyString(), anyInt())).thenReturn(
+            RuntimeEnvironment.getApplication().getSharedPreferences("test", Context.MODE_PRIVATE)
+        )
         
         // Setup Arguments static mock for WritableMap creation
         mockStatic(Arguments::class.java).use { mockedArguments ->
@@ -105,7 +116,7 @@ class GoogleSigninModernModuleTest {
             whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
 
             // When
-            module.configure(validClientId, mockPromise)
+            module.configure(configOf(validClientId), mockPromise)
 
             // Then
             verify(mockPromise).resolve(null)
@@ -113,13 +124,48 @@ class GoogleSigninModernModuleTest {
         }
     }
 
+    @Test
+    fun `configure should accept scopes and offline access`() {
+        // Given
+        val config = configOf(VALID_CLIENT_ID).apply {
+            putArray("scopes", JavaOnlyArray.of("openid", "email", "https://www.googleapis.com/auth/drive"))
+            putBoolean("offlineAccess", true)
+        }
+        mockStaticCredentialManager {
+            whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
+
+            // When
+            module.configure(config, mockPromise)
+
+            // Then
+            verify(mockPromise).resolve(null)
+        }
+    }
+
+    @Test
+    fun `configure should accept a hosted domain`() {
+        // Given
+        val config = configOf(VALID_CLIENT_ID).apply {
+            putString("hostedDomain", "example.com")
+        }
+        mockStaticCredentialManager {
+            whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
+
+            // When
+            module.configure(config, mockPromise)
+
+            // Then
+            verify(mockPromise).resolve(null)
+        }
+    }
+
     @Test
     fun `configure should reject with invalid client ID format`() {
         // Given
         val invalidClientId = INVALID_CLIENT_ID
 
         // When
-        module.configure(invalidClientId, mockPromise)
+        module.configure(configOf(invalidClientId), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -135,7 +181,7 @@ class GoogleSigninModernModuleTest {
         val blankClientId = BLANK_CLIENT_ID
 
         // When
-        module.configure(blankClientId, mockPromise)
+        module.configure(configOf(blankClientId), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -152,7 +198,7 @@ class GoogleSigninModernModuleTest {
             whenever(CredentialManager.create(mockReactContext)).thenThrow(RuntimeException("Creation failed"))
 
             // When
-            module.configure(validClientId, mockPromise)
+            module.configure(configOf(validClientId), mockPromise)
 
             // Then
             verify(mockPromise).reject(
@@ -222,7 +268,49 @@ class GoogleSigninModernModuleTest {
         // Given - module not configured
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NOT_CONFIGURED"),
+            eq("Google Sign-In not configured. Call configure() first.")
+        )
+    }
+
+    @Test
+    fun `signIn with nonce should reject when not configured`() {
+        // Given - module not configured
+
+        // When
+        module.signIn(JavaOnlyMap.of("nonce", "test-nonce"), mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NOT_CONFIGURED"),
+            eq("Google Sign-In not configured. Call configure() first.")
+        )
+    }
+
+    @Test
+    fun `signIn with button presentation should reject when not configured`() {
+        // Given - module not configured
+
+        // When
+        module.signIn(JavaOnlyMap.of("presentation", "button"), mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NOT_CONFIGURED"),
+            eq("Google Sign-In not configured. Call configure() first.")
+        )
+    }
+
+    @Test
+    fun `presentExplicitSignIn should reject when not configured`() {
+        // Given - module not configured
+
+        // When
+        module.presentExplicitSignIn(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -238,7 +326,7 @@ class GoogleSigninModernModuleTest {
         whenever(mockReactContext.currentActivity).thenReturn(null)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -255,10 +343,10 @@ class GoogleSigninModernModuleTest {
         val secondPromise = mock<Promise>()
 
         // Start first sign in (will be pending)
-        module.signIn(firstPromise)
+        module.signIn(JavaOnlyMap(), firstPromise)
 
         // When - attempt second sign in
-        module.signIn(secondPromise)
+        module.signIn(JavaOnlyMap(), secondPromise)
 
         // Then
         verify(secondPromise).reject(
@@ -272,7 +360,7 @@ class GoogleSigninModernModuleTest {
         // Given - module not configured
 
         // When
-        module.signInSilently(mockPromise)
+        module.signInSilently(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -301,7 +389,7 @@ class GoogleSigninModernModuleTest {
                 .thenReturn(credentialFuture)
 
             // When
-            module.signIn(mockPromise)
+            module.signIn(JavaOnlyMap(), mockPromise)
 
             // Then - verify the credential manager was called correctly
             verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -320,7 +408,7 @@ class GoogleSigninModernModuleTest {
             .thenReturn(failedFuture)
 
         // When
-        module.signInSilently(mockPromise)
+        module.signInSilently(JavaOnlyMap(), mockPromise)
 
         // Then - verify the credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -335,7 +423,7 @@ class GoogleSigninModernModuleTest {
         // Given - module not configured
 
         // When
-        module.getTokens(mockPromise)
+        module.getTokens(JavaOnlyMap(), mockPromise)
 
         // Then
         verify(mockPromise).reject(
@@ -344,6 +432,66 @@ class GoogleSigninModernModuleTest {
         )
     }
 
+    @Test
+    fun `requestAuthorization should reject when not configured`() {
+        // Given - module not configured
+        val request = JavaOnlyMap.of("scopes", JavaOnlyArray.of("https://www.googleapis.com/auth/drive.readonly"))
+
+        // When
+        module.requestAuthorization(request, mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NOT_CONFIGURED"),
+            eq("Google Sign-In not configured. Call configure() first.")
+        )
+    }
+
+    @Test
+    fun `requestAuthorization should reject when no scopes are requested`() {
+        // Given
+        setupConfiguredModule()
+        val request = JavaOnlyMap.of("scopes", JavaOnlyArray())
+
+        // When
+        module.requestAuthorization(request, mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("AUTHORIZATION_ERROR"),
+            eq("At least one scope is required")
+        )
+    }
+
+    @Test
+    fun `revokeAccess should reject when not configured`() {
+        // Given - module not configured
+
+        // When
+        module.revokeAccess("jane@example.com", mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NOT_CONFIGURED"),
+            eq("Google Sign-In not configured. Call configure() first.")
+        )
+    }
+
+    @Test
+    fun `revokeAccess should reject with NO_USER without an account`() {
+        // Given
+        setupConfiguredModule()
+
+        // When
+        module.revokeAccess(null, mockPromise)
+
+        // Then
+        verify(mockPromise).reject(
+            eq("NO_USER"),
+            eq("No user signed in. Please sign in first.")
+        )
+    }
+
     @Test
     fun `getTokens should handle successful token refresh`() {
         // Given
@@ -360,7 +508,7 @@ class GoogleSigninModernModuleTest {
                 .thenReturn(credentialFuture)
 
             // When
-            module.getTokens(mockPromise)
+            module.getTokens(JavaOnlyMap(), mockPromise)
 
             // Then - verify the credential manager was called
             verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -379,7 +527,7 @@ class GoogleSigninModernModuleTest {
             .thenReturn(failedFuture)
 
         // When
-        module.getTokens(mockPromise)
+        module.getTokens(JavaOnlyMap(), mockPromise)
 
         // Then - verify the credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -396,10 +544,57 @@ class GoogleSigninModernModuleTest {
 
         // When
         module.signOut(mockPromise)
+        shadowOf(Looper.getMainLooper()).idle()
+
+        // Then
+        verify(mockPromise).resolve(null)
+    }
+
+    @Test
+    fun `signOut should clear credential state`() {
+        // Given
+        setupConfiguredModule()
+
+        // When
+        module.signOut(mockPromise)
+        shadowOf(Looper.getMainLooper()).idle()
+
+        // Then
+        verifyBlocking(mockCredentialManager) { clearCredentialState(any()) }
+        verify(mockPromise).resolve(null)
+    }
+
+    @Test
+    fun `signOut should keep the module configured`() {
+        // Given
+        setupConfiguredModule()
+        module.signOut(mock<Promise>())
+        shadowOf(Looper.getMainLooper()).idle()
+
+        // When - a call that checks configuration before anything else
+        module.revokeAccess(null, mockPromise)
+
+        // Then - it gets past the configuration check
+        verify(mockPromise).reject(
+            eq("NO_USER"),
+            eq("No user signed in. Please sign in first.")
+        )
+    }
+
+    @Test
+    fun `signOut should resolve when clearing credential state fails`() {
+        // Given
+        setupConfiguredModule()
+        mockCredentialManager.stub {
+            onBlocking { clearCredentialState(any()) }.thenThrow(RuntimeException("Provider unavailable"))
+        }
+
+        // When
+        module.signOut(mockPromise)
+        shadowOf(Looper.getMainLooper()).idle()
 
         // Then
         verify(mockPromise).resolve(null)
-        // Verify internal state is cleared (we can test this indirectly)
     }
 
     @Test
@@ -409,10 +604,11 @@ class GoogleSigninModernModuleTest {
         val pendingPromise = mock<Promise>()
         
         // Start a sign in operation (this will make it pending)
-        module.signIn(pendingPromise)
+        module.signIn(JavaOnlyMap(), pendingPromise)
 
         // When
         module.signOut(mockPromise)
+        shadowOf(Looper.getMainLooper()).idle()
 
         // Then
         verify(mockPromise).resolve(null)
@@ -427,12 +623,61 @@ class GoogleSigninModernModuleTest {
     // ========================================
 
     @Test
-    fun `isSignedIn should always return false`() {
-        // Given - any state
+    fun `isSignedIn should return false without a persisted session`() {
+        // When
+        module.isSignedIn(mockPromise)
+
+        // Then
+        verify(mockPromise).resolve(false)
+    }
+
+    @Test
+    fun `isSignedIn should return true once a session is persisted`() {
+        // Given
+        module.writeSession("{\"version\":1}", mock<Promise>())
 
         // When
         module.isSignedIn(mockPromise)
 
+        // Then
+        verify(mockPromise).resolve(true)
+    }
+
+    @Test
+    fun `readSession should return the persisted session`() {
+        // Given
+        module.writeSession("{\"version\":1}", mock<Promise>())
+
+        // When
+        module.readSession(mockPromise)
+
+        // Then
+        verify(mockPromise).resolve("{\"version\":1}")
+    }
+
+    @Test
+    fun `writeSession with null should delete the session`() {
+        // Given
+        module.writeSession("{\"version\":1}", mock<Promise>())
+
+        // When
+        module.writeSession(null, mock<Promise>())
+        module.readSession(mockPromise)
+
+        // Then
+        verify(mockPromise).resolve(null)
+    }
+
+    @Test
+    fun `signOut should delete the persisted session`() {
+        // Given
+        setupConfiguredModule()
+        module.writeSession("{\"version\":1}", mock<Promise>())
+
+        // When
+        module.signOut(mock<Promise>())
+        module.isSignedIn(mockPromise)
+
         // Then
         verify(mockPromise).resolve(false)
     }
@@ -457,7 +702,7 @@ class GoogleSigninModernModuleTest {
             .thenReturn(credentialFuture)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - verify the credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -478,7 +723,7 @@ class GoogleSigninModernModuleTest {
             .thenReturn(credentialFuture)
 
         // When
-        module.signIn(mockPromise)
+        module.signIn(JavaOnlyMap(), mockPromise)
 
         // Then - verify the credential manager was called
         verify(mockCredentialManager).getCredential(any<GetCredentialRequest>(), any<Activity>())
@@ -493,7 +738,7 @@ class GoogleSigninModernModuleTest {
         // Given
         setupConfiguredModule()
         val pendingPromise = mock<Promise>()
-        module.signIn(pendingPromise) // Create pending operation
+        module.signIn(JavaOnlyMap(), pendingPromise) // Create pending operation
 
         // When
         module.invalidate()
@@ -524,7 +769,7 @@ class GoogleSigninModernModuleTest {
     private fun setupConfiguredModule() {
         mockStaticCredentialManager {
             whenever(CredentialManager.create(mockReactContext)).thenReturn(mockCredentialManager)
-            module.configure(VALID_CLIENT_ID, mock())
+            module.configure(configOf(VALID_CLIENT_ID), mock())
         }
     }
 
@@ -540,6 +785,13 @@ class GoogleSigninModernModuleTest {
         }
     }
 
+    /**
+     * Builds the configuration map passed to configure() from JS
+     */
+    private fun configOf(webClientId: String): JavaOnlyMap {
+        return JavaOnlyMap.of("webClientId", webClientId)
+    }
+
     /**
      * Helper method to mock static CredentialManager methods
      */
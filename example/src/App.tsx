@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Text, View, StyleSheet, Button, Alert, Platform } from 'react-native';
 import GoogleSignIn, {
+  GoogleSigninButton,
   type GoogleSignInResult,
 } from 'react-native-google-signin-modern';
 
@@ -83,7 +84,7 @@ export default function App() {
         return;
       }
 
-      const result = await GoogleSignIn.signIn();
+      const result = await GoogleSignIn.signIn({ presentation: 'button' });
       setUser(result);
       Alert.alert(
         'Success',
@@ -156,11 +157,7 @@ export default function App() {
           <Text style={styles.text}>
             {isConfigured ? 'Tap to sign in with Google' : 'Configuring...'}
           </Text>
-          <Button
-            title="Sign In with Google"
-            onPress={handleSignIn}
-            disabled={!isConfigured}
-          />
+          <GoogleSigninButton onPress={handleSignIn} disabled={!isConfigured} />
         </View>
       )}
     </View>
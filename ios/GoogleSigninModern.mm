@@ -34,6 +34,10 @@
 
 @interface GoogleSigninModern ()
 @property (nonatomic, copy) NSString *webClientId;
+@property (nonatomic, copy) NSArray<NSString *> *configuredScopes;
+@property (nonatomic, assign) BOOL offlineAccess;
+@property (nonatomic, assign) BOOL authorizationOfflineAccess;
+@property (nonatomic, copy) NSString *pendingNonce;
 @property (nonatomic, copy) void (^pendingResolve)(id result);
 @property (nonatomic, copy) void (^pendingReject)(NSString *code, NSString *message, NSError *error);
 @property (nonatomic, assign) BOOL signInInProgress;
@@ -48,13 +52,26 @@ static NSString * const ERROR_NOT_CONFIGURED = @"NOT_CONFIGURED";
 static NSString * const ERROR_SIGN_IN_IN_PROGRESS = @"SIGN_IN_IN_PROGRESS";
 static NSString * const ERROR_NO_GOOGLE_ACCOUNTS = @"NO_GOOGLE_ACCOUNTS";
 static NSString * const ERROR_SIGN_IN_ERROR = @"SIGN_IN_ERROR";
+static NSString * const ERROR_SIGN_IN_REQUIRED = @"SIGN_IN_REQUIRED";
+static NSString * const ERROR_NO_SAVED_CREDENTIAL = @"NO_SAVED_CREDENTIAL";
 static NSString * const ERROR_CONFIGURE_ERROR = @"CONFIGURE_ERROR";
 static NSString * const ERROR_SIGN_OUT_ERROR = @"SIGN_OUT_ERROR";
 static NSString * const ERROR_SIGN_OUT_REQUESTED = @"SIGN_OUT_REQUESTED";
+static NSString * const ERROR_REVOKE_ACCESS_ERROR = @"REVOKE_ACCESS_ERROR";
 static NSString * const ERROR_MODULE_DESTROYED = @"MODULE_DESTROYED";
 static NSString * const ERROR_USER_CANCELLED = @"USER_CANCELLED";
 static NSString * const ERROR_NO_USER = @"NO_USER";
 static NSString * const ERROR_TOKEN_REFRESH_ERROR = @"TOKEN_REFRESH_ERROR";
+static NSString * const ERROR_AUTHORIZATION_ERROR = @"AUTHORIZATION_ERROR";
+static NSString * const ERROR_AUTHORIZATION_DENIED = @"AUTHORIZATION_DENIED";
+
+// NSUserDefaults key of the session the JS layer persists
+static NSString * const SESSION_DEFAULTS_KEY = @"GoogleSigninModernSession";
+
+// Scopes GIDSignIn always requests, used when configure() is called without explicit scopes
+static NSArray<NSString *> *DefaultScopes(void) {
+    return @[@"openid", @"email", @"profile"];
+}
 
 - (instancetype)init {
     if (self = [super init]) {
@@ -63,10 +80,23 @@ static NSString * const ERROR_TOKEN_REFRESH_ERROR = @"TOKEN_REFRESH_ERROR";
     return self;
 }
 
-RCT_EXPORT_METHOD(configure:(NSString *)webClientId
+RCT_EXPORT_METHOD(configure:(JS::NativeGoogleSigninModern::GoogleSignInNativeConfig &)config
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
     @try {
+        NSString *webClientId = config.webClientId();
+        NSString *iosClientId = config.iosClientId();
+        
+        BOOL offlineAccess = config.offlineAccess().value_or(false);
+        NSString *hostedDomain = config.hostedDomain();
+        
+        NSMutableArray<NSString *> *scopes = [NSMutableArray array];
+        if (config.scopes().has_value()) {
+            for (NSString *scope : config.scopes().value()) {
+                [scopes addObject:scope];
+            }
+        }
+        
         // Validate webClientId format
         if (!webClientId || webClientId.length == 0) {
             reject(ERROR_CONFIGURE_ERROR, @"webClientId cannot be blank", nil);
@@ -78,13 +108,29 @@ RCT_EXPORT_METHOD(configure:(NSString *)webClientId
         }
         
 #if HAS_GOOGLE_SIGNIN
-        // Configure Google Sign-In
-        GIDConfiguration *config = [[GIDConfiguration alloc] initWithClientID:webClientId];
-        [GIDSignIn sharedInstance].configuration = config;
+        // GIDSignIn signs in with the iOS client; the web client is the server client, which makes
+        // it the ID token audience, as on Android. Apps that only set webClientId keep working
+        // with it as the client ID, as before iosClientId existed.
+        NSString *clientID = iosClientId ?: [[NSBundle mainBundle] objectForInfoDictionaryKey:@"GIDClientID"];
+        if (clientID.length == 0) {
+            RCTLogWarn(@"No iosClientId or GIDClientID in Info.plist, using webClientId as the iOS client ID");
+            clientID = webClientId;
+        }
+        BOOL hasServerClient = ![clientID isEqualToString:webClientId];
+        
+        // The hosted domain limits the account chooser to that Workspace domain
+        GIDConfiguration *signInConfig = [[GIDConfiguration alloc] initWithClientID:clientID
+                                                                    serverClientID:((hasServerClient || offlineAccess) ? webClientId : nil)
+                                                                      hostedDomain:hostedDomain
+                                                                       openIDRealm:nil];
+        [GIDSignIn sharedInstance].configuration = signInConfig;
         
         self.webClientId = webClientId;
+        self.configuredScopes = scopes.count > 0 ? scopes : DefaultScopes();
+        self.offlineAccess = offlineAccess;
         
         RCTLogInfo(@"Google Sign-In configured successfully");
+        RCTLogInfo(@"Client ID: %@, scopes: %@, offline access: %@, hosted domain: %@", clientID, self.configuredScopes, self.offlineAccess ? @"YES" : @"NO", hostedDomain ?: @"none");
         resolve(nil);
 #else
         reject(ERROR_CONFIGURE_ERROR, @"Google Sign-In SDK not found. Please install GoogleSignIn pod.", nil);
@@ -103,11 +149,64 @@ RCT_EXPORT_METHOD(isPlayServicesAvailable:(RCTPromiseResolveBlock)resolve
     resolve(@YES);
 }
 
-RCT_EXPORT_METHOD(signIn:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(signIn:(JS::NativeGoogleSigninModern::GoogleSignInNativeSignInOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
+    RCTLogInfo(@"Sign-in request initiated");
+    
+#if HAS_GOOGLE_SIGNIN
+    // GIDSignIn has no account picker limited to authorized accounts, so approximate it
+    // with the keychain session: restore it and preselect its account in the standard flow.
+    // Other filters show that flow as is. Both presentations map to it too, but like
+    // Android's button flow, 'button' ignores the filter.
+    NSString *accountFilter = options.accountFilter();
+    BOOL isButton = [options.presentation() isEqualToString:@"button"];
+    if (self.webClientId && !self.signInInProgress && !isButton &&
+        [accountFilter isEqualToString:@"authorizedOnly"]) {
+        GIDSignIn *signIn = [GIDSignIn sharedInstance];
+        if (!signIn.currentUser && ![signIn hasPreviousSignIn]) {
+            reject(ERROR_NO_SAVED_CREDENTIAL, @"No saved credential matched the authorizedOnly account filter", nil);
+            return;
+        }
+        NSString *nonce = options.nonce();
+        NSString *loginHint = options.loginHint();
+        if (signIn.currentUser) {
+            [self presentSignInWithNonce:nonce hint:(loginHint ?: signIn.currentUser.profile.email) resolve:resolve reject:reject];
+            return;
+        }
+        RCTLogInfo(@"Restoring previous sign-in for the authorizedOnly account filter");
+        [signIn restorePreviousSignInWithCompletion:^(GIDGoogleUser *user, NSError *error) {
+            dispatch_async(dispatch_get_main_queue(), ^{
+                if (!user) {
+                    RCTLogWarn(@"Could not restore previous sign-in: %@", error.localizedDescription);
+                    reject(ERROR_NO_SAVED_CREDENTIAL, @"No saved credential matched the authorizedOnly account filter", nil);
+                    return;
+                }
+                [self presentSignInWithNonce:nonce hint:(loginHint ?: user.profile.email) resolve:resolve reject:reject];
+            });
+        }];
+        return;
+    }
+#endif
+    
+    [self presentSignInWithNonce:options.nonce() hint:options.loginHint() resolve:resolve reject:reject];
+}
+
+// iOS has a single interactive flow, so the explicit sign-in shares it with signIn
+RCT_EXPORT_METHOD(presentExplicitSignIn:(JS::NativeGoogleSigninModern::GoogleSignInNativeSignInOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    RCTLogInfo(@"Explicit sign-in request initiated");
+    [self presentSignInWithNonce:options.nonce() hint:options.loginHint() resolve:resolve reject:reject];
+}
+
+// `hint` is the login hint, the email of the account to preselect; autoSelect and
+// preferImmediatelyAvailableCredentials have no GIDSignIn equivalent
+- (void)presentSignInWithNonce:(NSString *)nonce
+                          hint:(NSString *)hint
+                       resolve:(RCTPromiseResolveBlock)resolve
+                        reject:(RCTPromiseRejectBlock)reject {
     @try {
-        RCTLogInfo(@"Sign-in request initiated");
-        
         if (!self.webClientId) {
             reject(ERROR_NOT_CONFIGURED, @"Google Sign-In not configured. Call configure() first.", nil);
             return;
@@ -119,22 +218,22 @@ RCT_EXPORT_METHOD(signIn:(RCTPromiseResolveBlock)resolve
             return;
         }
         
-        // Store promise callbacks
+        // Store promise callbacks and the nonce to echo back
         self.pendingResolve = resolve;
         self.pendingReject = reject;
+        self.pendingNonce = nonce;
         self.signInInProgress = YES;
         
 #if HAS_GOOGLE_SIGNIN
-        // Get the root view controller
-        UIViewController *rootViewController = RCTKeyWindow().rootViewController;
-        while (rootViewController.presentedViewController) {
-            rootViewController = rootViewController.presentedViewController;
-        }
+        UIViewController *rootViewController = [self presentingViewController];
         
         RCTLogInfo(@"Starting Google Sign-In flow");
         
-        // Start sign-in flow
+        // Start sign-in flow, asking for any scopes beyond the basic profile ones GIDSignIn always requests
         [[GIDSignIn sharedInstance] signInWithPresentingViewController:rootViewController
+                                                                  hint:hint
+                                                      additionalScopes:[self additionalScopes]
+                                                                 nonce:self.pendingNonce
                                                             completion:^(GIDSignInResult *result, NSError *error) {
             dispatch_async(dispatch_get_main_queue(), ^{
                 [self handleSignInResult:result error:error];
@@ -152,7 +251,8 @@ RCT_EXPORT_METHOD(signIn:(RCTPromiseResolveBlock)resolve
     }
 }
 
-RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(signInSilently:(JS::NativeGoogleSigninModern::GoogleSignInNativeSignInOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
     @try {
         RCTLogInfo(@"Silent sign-in request initiated");
@@ -174,6 +274,11 @@ RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
         self.signInInProgress = YES;
         
 #if HAS_GOOGLE_SIGNIN
+        if (options.nonce()) {
+            // restorePreviousSignIn reuses the stored ID token, so a nonce cannot be applied
+            RCTLogWarn(@"Nonce is ignored for silent sign-in on iOS; use signIn() to obtain a token with a nonce claim");
+        }
+        
         RCTLogInfo(@"Attempting to restore previous Google Sign-In");
         
         // Attempt to restore previous sign-in silently
@@ -234,6 +339,9 @@ RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
     
     NSDictionary *response = @{
         @"idToken": user.idToken.tokenString ?: @"",
+        // A server client always yields a code; only hand it out when offline access was requested
+        @"serverAuthCode": (self.offlineAccess ? result.serverAuthCode : nil) ?: [NSNull null],
+        @"nonce": self.pendingNonce ?: [NSNull null],
         @"user": userDict
     };
     
@@ -252,7 +360,7 @@ RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
         
         // For silent sign-in, we don't show error dialogs, just return the error
         if (error.code == kGIDSignInErrorCodeHasNoAuthInKeychain) {
-            [self clearPendingPromiseWithError:@"SIGN_IN_REQUIRED" message:@"The user has never signed in before, or they have since signed out."];
+            [self clearPendingPromiseWithError:ERROR_SIGN_IN_REQUIRED message:@"The user has never signed in before, or they have since signed out."];
         } else {
             NSString *errorMessage = [NSString stringWithFormat:@"Silent sign-in failed: %@", error.localizedDescription];
             [self clearPendingPromiseWithError:ERROR_SIGN_IN_ERROR message:errorMessage];
@@ -267,16 +375,20 @@ RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
     
     // Create response matching Android format
     GIDProfileData *profile = user.profile;
+    NSString *stableUserId = [self extractUserIdFromToken:user.idToken.tokenString] ?: profile.email ?: @"";
     
     NSDictionary *userDict = @{
-        @"id": profile.email ?: @"",
+        @"id": stableUserId,
         @"name": profile.name ?: @"",
         @"email": profile.email ?: @"",
         @"photo": profile.hasImage ? [profile imageURLWithDimension:120].absoluteString : [NSNull null]
     };
     
+    // Restored sessions never carry a server auth code or nonce; both only apply to interactive sign-in
     NSDictionary *response = @{
         @"idToken": user.idToken.tokenString ?: @"",
+        @"serverAuthCode": [NSNull null],
+        @"nonce": [NSNull null],
         @"user": userDict
     };
     
@@ -312,8 +424,9 @@ RCT_EXPORT_METHOD(signOut:(RCTPromiseResolveBlock)resolve
         [[GIDSignIn sharedInstance] signOut];
 #endif
         
-        // Clear stored state
-        [self clearAllState];
+        // Clear the signed-in state but keep the configuration, so signIn works without configure
+        [self clearPendingPromise];
+        [[NSUserDefaults standardUserDefaults] removeObjectForKey:SESSION_DEFAULTS_KEY];
         
         RCTLogInfo(@"Sign-out completed successfully");
         resolve(nil);
@@ -324,11 +437,76 @@ RCT_EXPORT_METHOD(signOut:(RCTPromiseResolveBlock)resolve
     }
 }
 
+RCT_EXPORT_METHOD(revokeAccess:(NSString *)accountEmail
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    // GIDSignIn disconnects its current user, so accountEmail is only needed on Android
+    RCTLogInfo(@"Revoke access requested");
+    
+#if HAS_GOOGLE_SIGNIN
+    GIDSignIn *signIn = [GIDSignIn sharedInstance];
+    if (signIn.currentUser) {
+        [self disconnectWithResolve:resolve reject:reject];
+        return;
+    }
+    if (![signIn hasPreviousSignIn]) {
+        reject(ERROR_NO_USER, @"No user signed in. Please sign in first.", nil);
+        return;
+    }
+    
+    // disconnect needs the current user's token, which after a relaunch has to be restored first
+    [signIn restorePreviousSignInWithCompletion:^(GIDGoogleUser *user, NSError *error) {
+        dispatch_async(dispatch_get_main_queue(), ^{
+            if (!user) {
+                RCTLogWarn(@"Could not restore previous sign-in: %@", error.localizedDescription);
+                if (error.code == kGIDSignInErrorCodeHasNoAuthInKeychain) {
+                    reject(ERROR_NO_USER, @"No user signed in. Please sign in first.", error);
+                } else {
+                    NSString *errorMessage = [NSString stringWithFormat:@"Revoking access failed: %@", error.localizedDescription];
+                    reject(ERROR_REVOKE_ACCESS_ERROR, errorMessage, error);
+                }
+                return;
+            }
+            [self disconnectWithResolve:resolve reject:reject];
+        });
+    }];
+#else
+    reject(ERROR_REVOKE_ACCESS_ERROR, @"Google Sign-In SDK not available", nil);
+#endif
+}
+
+#if HAS_GOOGLE_SIGNIN
+- (void)disconnectWithResolve:(RCTPromiseResolveBlock)resolve
+                       reject:(RCTPromiseRejectBlock)reject {
+    [[GIDSignIn sharedInstance] disconnectWithCompletion:^(NSError *error) {
+        dispatch_async(dispatch_get_main_queue(), ^{
+            if (error) {
+                RCTLogError(@"Revoke access failed: %@", error.localizedDescription);
+                NSString *errorMessage = [NSString stringWithFormat:@"Revoking access failed: %@", error.localizedDescription];
+                reject(ERROR_REVOKE_ACCESS_ERROR, errorMessage, error);
+                return;
+            }
+            
+            // disconnect also signs the user out of GIDSignIn
+            if (self.pendingReject) {
+                self.pendingReject(ERROR_SIGN_OUT_REQUESTED, @"Access was revoked", nil);
+            }
+            [self clearPendingPromise];
+            [[NSUserDefaults standardUserDefaults] removeObjectForKey:SESSION_DEFAULTS_KEY];
+            
+            RCTLogInfo(@"Access revoked successfully");
+            resolve(nil);
+        });
+    }];
+}
+#endif
+
 RCT_EXPORT_METHOD(isSignedIn:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
 #if HAS_GOOGLE_SIGNIN
-    GIDGoogleUser *currentUser = [GIDSignIn sharedInstance].currentUser;
-    BOOL isSignedIn = currentUser != nil;
+    // currentUser stays nil after a relaunch until the previous sign-in is restored
+    GIDSignIn *signIn = [GIDSignIn sharedInstance];
+    BOOL isSignedIn = signIn.currentUser != nil || [signIn hasPreviousSignIn];
     RCTLogInfo(@"isSignedIn called - user status: %@", isSignedIn ? @"signed in" : @"signed out");
     resolve(@(isSignedIn));
 #else
@@ -337,42 +515,58 @@ RCT_EXPORT_METHOD(isSignedIn:(RCTPromiseResolveBlock)resolve
 #endif
 }
 
-RCT_EXPORT_METHOD(getTokens:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(readSession:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
+    resolve([[NSUserDefaults standardUserDefaults] stringForKey:SESSION_DEFAULTS_KEY]);
+}
+
+RCT_EXPORT_METHOD(writeSession:(NSString *)session
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    NSUserDefaults *defaults = [NSUserDefaults standardUserDefaults];
+    if (session) {
+        [defaults setObject:session forKey:SESSION_DEFAULTS_KEY];
+    } else {
+        [defaults removeObjectForKey:SESSION_DEFAULTS_KEY];
+    }
+    resolve(nil);
+}
+
+RCT_EXPORT_METHOD(getTokens:(JS::NativeGoogleSigninModern::GoogleSignInNativeGetTokensOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    // refreshTokensIfNeeded never shows UI, so options.interactive() only matters on Android
     @try {
         RCTLogInfo(@"Token refresh request initiated");
         
 #if HAS_GOOGLE_SIGNIN
-        GIDGoogleUser *currentUser = [GIDSignIn sharedInstance].currentUser;
-        if (!currentUser) {
+        GIDSignIn *signIn = [GIDSignIn sharedInstance];
+        if (signIn.currentUser) {
+            [self refreshTokensForUser:signIn.currentUser resolve:resolve reject:reject];
+            return;
+        }
+        if (![signIn hasPreviousSignIn]) {
             RCTLogWarn(@"No current user found for token refresh");
             reject(ERROR_NO_USER, @"No user signed in. Please sign in first.", nil);
             return;
         }
         
-        RCTLogInfo(@"Refreshing tokens for current user");
-        [currentUser refreshTokensIfNeededWithCompletion:^(GIDGoogleUser *user, NSError *error) {
+        // After a relaunch the session persisted by the SDK has to be restored first
+        RCTLogInfo(@"Restoring previous sign-in before refreshing tokens");
+        [signIn restorePreviousSignInWithCompletion:^(GIDGoogleUser *user, NSError *error) {
             dispatch_async(dispatch_get_main_queue(), ^{
-                if (error) {
-                    RCTLogError(@"Token refresh failed: %@", error.localizedDescription);
-                    NSString *errorMessage = [NSString stringWithFormat:@"Token refresh failed: %@", error.localizedDescription];
-                    reject(ERROR_TOKEN_REFRESH_ERROR, errorMessage, error);
-                    return;
-                }
-                
-                if (!user || !user.idToken || !user.accessToken) {
-                    RCTLogError(@"Token refresh returned invalid user or tokens");
-                    reject(ERROR_TOKEN_REFRESH_ERROR, @"Token refresh returned invalid tokens", nil);
+                if (!user) {
+                    RCTLogWarn(@"Could not restore previous sign-in: %@", error.localizedDescription);
+                    // Only a missing keychain entry means the session is gone; anything else may be transient
+                    if (error.code == kGIDSignInErrorCodeHasNoAuthInKeychain) {
+                        reject(ERROR_NO_USER, @"No user signed in. Please sign in first.", error);
+                    } else {
+                        NSString *errorMessage = [NSString stringWithFormat:@"Token refresh failed: %@", error.localizedDescription];
+                        reject(ERROR_TOKEN_REFRESH_ERROR, errorMessage, error);
+                    }
                     return;
                 }
-                
-                NSDictionary *tokens = @{
-                    @"idToken": user.idToken.tokenString ?: @"",
-                    @"accessToken": user.accessToken.tokenString ?: @""
-                };
-                
-                RCTLogInfo(@"Token refresh successful");
-                resolve(tokens);
+                [self refreshTokensForUser:user resolve:resolve reject:reject];
             });
         }];
 #else
@@ -388,8 +582,197 @@ RCT_EXPORT_METHOD(getTokens:(RCTPromiseResolveBlock)resolve
     }
 }
 
+#if HAS_GOOGLE_SIGNIN
+- (void)refreshTokensForUser:(GIDGoogleUser *)currentUser
+                     resolve:(RCTPromiseResolveBlock)resolve
+                      reject:(RCTPromiseRejectBlock)reject {
+    RCTLogInfo(@"Refreshing tokens for current user");
+    [currentUser refreshTokensIfNeededWithCompletion:^(GIDGoogleUser *user, NSError *error) {
+        dispatch_async(dispatch_get_main_queue(), ^{
+            if (error) {
+                RCTLogError(@"Token refresh failed: %@", error.localizedDescription);
+                NSString *errorMessage = [NSString stringWithFormat:@"Token refresh failed: %@", error.localizedDescription];
+                reject(ERROR_TOKEN_REFRESH_ERROR, errorMessage, error);
+                return;
+            }
+            
+            if (!user || !user.idToken || !user.accessToken) {
+                RCTLogError(@"Token refresh returned invalid user or tokens");
+                reject(ERROR_TOKEN_REFRESH_ERROR, @"Token refresh returned invalid tokens", nil);
+                return;
+            }
+            
+            NSDictionary *tokens = @{
+                @"idToken": user.idToken.tokenString ?: @"",
+                @"accessToken": user.accessToken.tokenString ?: @""
+            };
+            
+            RCTLogInfo(@"Token refresh successful");
+            resolve(tokens);
+        });
+    }];
+}
+#endif
+
+RCT_EXPORT_METHOD(requestAuthorization:(JS::NativeGoogleSigninModern::GoogleSignInAuthorizationRequest &)request
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    @try {
+        RCTLogInfo(@"Authorization request initiated");
+        
+        NSMutableArray<NSString *> *scopes = [NSMutableArray array];
+        for (NSString *scope : request.scopes()) {
+            [scopes addObject:scope];
+        }
+        
+        if (!self.webClientId) {
+            reject(ERROR_NOT_CONFIGURED, @"Google Sign-In not configured. Call configure() first.", nil);
+            return;
+        }
+        
+        if (scopes.count == 0) {
+            reject(ERROR_AUTHORIZATION_ERROR, @"At least one scope is required", nil);
+            return;
+        }
+        
+        if (self.signInInProgress) {
+            RCTLogWarn(@"Sign-in already in progress, rejecting authorization request");
+            reject(ERROR_SIGN_IN_IN_PROGRESS, @"Sign-in already in progress", nil);
+            return;
+        }
+        
+#if HAS_GOOGLE_SIGNIN
+        GIDSignIn *signIn = [GIDSignIn sharedInstance];
+        if (!signIn.currentUser && ![signIn hasPreviousSignIn]) {
+            RCTLogWarn(@"No current user found for authorization request");
+            reject(ERROR_NO_USER, @"No user signed in. Please sign in first.", nil);
+            return;
+        }
+        
+        // Store promise callbacks
+        self.pendingResolve = resolve;
+        self.pendingReject = reject;
+        self.signInInProgress = YES;
+        
+        // GIDSignIn returns a server auth code whenever a server client ID is configured
+        self.authorizationOfflineAccess = self.offlineAccess || request.offlineAccess().value_or(false);
+        
+        if (signIn.currentUser) {
+            [self addScopes:scopes toUser:signIn.currentUser];
+            return;
+        }
+        
+        // addScopes needs the current user, which after a relaunch has to be restored first
+        RCTLogInfo(@"Restoring previous sign-in before requesting authorization");
+        [signIn restorePreviousSignInWithCompletion:^(GIDGoogleUser *user, NSError *error) {
+            dispatch_async(dispatch_get_main_queue(), ^{
+                if (self.pendingReject != reject) {
+                    // signOut() or invalidate already rejected this request
+                    return;
+                }
+                if (!user) {
+                    RCTLogWarn(@"Could not restore previous sign-in: %@", error.localizedDescription);
+                    if (error.code == kGIDSignInErrorCodeHasNoAuthInKeychain) {
+                        [self clearPendingPromiseWithError:ERROR_NO_USER message:@"No user signed in. Please sign in first."];
+                    } else {
+                        NSString *errorMessage = [NSString stringWithFormat:@"Authorization failed: %@", error.localizedDescription];
+                        [self clearPendingPromiseWithError:ERROR_AUTHORIZATION_ERROR message:errorMessage];
+                    }
+                    return;
+                }
+                [self addScopes:scopes toUser:user];
+            });
+        }];
+#else
+        reject(ERROR_AUTHORIZATION_ERROR, @"Google Sign-In SDK not available", nil);
+#endif
+        
+    }
+    @catch (NSException *exception) {
+        RCTLogError(@"Exception in requestAuthorization: %@", exception.reason);
+        [self clearPendingPromiseWithError:ERROR_AUTHORIZATION_ERROR
+                                   message:[NSString stringWithFormat:@"Authorization failed: %@", exception.reason]];
+    }
+}
+
+#if HAS_GOOGLE_SIGNIN
+- (void)addScopes:(NSArray<NSString *> *)scopes toUser:(GIDGoogleUser *)user {
+    RCTLogInfo(@"Requesting additional scopes: %@", scopes);
+    [user addScopes:scopes
+presentingViewController:[self presentingViewController]
+         completion:^(GIDSignInResult *result, NSError *error) {
+        dispatch_async(dispatch_get_main_queue(), ^{
+            [self handleAuthorizationResult:result error:error];
+        });
+    }];
+}
+
+- (void)handleAuthorizationResult:(GIDSignInResult *)result error:(NSError *)error {
+    self.signInInProgress = NO;
+    
+    GIDGoogleUser *user = result.user;
+    
+    if (error) {
+        if (error.code == kGIDSignInErrorCodeScopesAlreadyGranted) {
+            // Nothing new to consent to - answer with the current user's tokens
+            RCTLogInfo(@"Requested scopes were already granted");
+            user = [GIDSignIn sharedInstance].currentUser;
+        } else if (error.code == kGIDSignInErrorCodeCanceled) {
+            [self clearPendingPromiseWithError:ERROR_AUTHORIZATION_DENIED message:@"The user did not grant the requested scopes"];
+            return;
+        } else {
+            RCTLogError(@"Authorization error: %@", error.localizedDescription);
+            NSString *errorMessage = [NSString stringWithFormat:@"Authorization failed: %@", error.localizedDescription];
+            [self clearPendingPromiseWithError:ERROR_AUTHORIZATION_ERROR message:errorMessage];
+            return;
+        }
+    }
+    
+    if (!user) {
+        [self clearPendingPromiseWithError:ERROR_AUTHORIZATION_ERROR message:@"No user data received"];
+        return;
+    }
+    
+    NSDictionary *response = @{
+        @"accessToken": user.accessToken.tokenString ?: @"",
+        @"grantedScopes": user.grantedScopes ?: @[],
+        @"serverAuthCode": (self.authorizationOfflineAccess ? result.serverAuthCode : nil) ?: [NSNull null]
+    };
+    
+    RCTLogInfo(@"Authorization successful");
+    if (self.pendingResolve) {
+        self.pendingResolve(response);
+    }
+    [self clearPendingPromise];
+}
+#endif
+
 #pragma mark - Helper Methods
 
+/**
+ * Topmost view controller to present Google Sign-In UI from.
+ */
+- (UIViewController *)presentingViewController {
+    UIViewController *rootViewController = RCTKeyWindow().rootViewController;
+    while (rootViewController.presentedViewController) {
+        rootViewController = rootViewController.presentedViewController;
+    }
+    return rootViewController;
+}
+
+/**
+ * Configured scopes that GIDSignIn does not request by default.
+ */
+- (NSArray<NSString *> *)additionalScopes {
+    NSMutableArray<NSString *> *additional = [NSMutableArray array];
+    for (NSString *scope in self.configuredScopes) {
+        if (![DefaultScopes() containsObject:scope]) {
+            [additional addObject:scope];
+        }
+    }
+    return additional;
+}
+
 /**
  * Extract the stable user ID from the ID token's "sub" claim.
  * The "sub" (subject) claim is the stable, unique identifier for the Google user
@@ -440,12 +823,15 @@ RCT_EXPORT_METHOD(getTokens:(RCTPromiseResolveBlock)resolve
 - (void)clearPendingPromise {
     self.pendingResolve = nil;
     self.pendingReject = nil;
+    self.pendingNonce = nil;
     self.signInInProgress = NO;
 }
 
 - (void)clearAllState {
     [self clearPendingPromise];
     self.webClientId = nil;
+    self.configuredScopes = nil;
+    self.offlineAccess = NO;
 }
 
 #pragma mark - Module Lifecycle
@@ -2,6 +2,8 @@ import { TurboModuleRegistry, type TurboModule } from 'react-native';
 
 export type GoogleSignInResult = Readonly<{
   idToken: string;
+  serverAuthCode?: string | null;
+  nonce?: string | null;
   user: Readonly<{
     id: string;
     name?: string | null;
@@ -15,14 +17,99 @@ export type GoogleSignInTokens = Readonly<{
   accessToken: string;
 }>;
 
+export type GoogleSignInNativeConfig = Readonly<{
+  webClientId: string;
+  /**
+   * iOS OAuth client ID for `GIDConfiguration`'s `clientID`. Ignored on Android.
+   */
+  iosClientId?: string | null;
+  scopes?: ReadonlyArray<string>;
+  offlineAccess?: boolean;
+  /**
+   * Google Workspace domain to offer accounts from. Only a hint; the JS layer enforces it.
+   */
+  hostedDomain?: string | null;
+}>;
+
+export type GoogleSignInNativeSignInOptions = Readonly<{
+  nonce?: string | null;
+  /**
+   * Which accounts an interactive sign-in may offer:
+   * 'authorizedOnly', 'all' or 'authorizedThenAll' (default)
+   */
+  accountFilter?: string | null;
+  /**
+   * Which Android UI to show: 'bottomSheet' (default) or 'button'.
+   * Ignored on iOS, which has a single sign-in flow.
+   */
+  presentation?: string | null;
+  /**
+   * iOS only: email of the account to preselect, passed as the sign-in `hint`
+   */
+  loginHint?: string | null;
+  /**
+   * Android only: GetGoogleIdOption's auto-select for a single returning account
+   */
+  autoSelect?: boolean | null;
+  /**
+   * Android only: GetCredentialRequest's preferImmediatelyAvailableCredentials
+   */
+  preferImmediatelyAvailableCredentials?: boolean | null;
+}>;
+
+export type GoogleSignInNativeGetTokensOptions = Readonly<{
+  /**
+   * Whether Android may show the consent screen or ask for an account. When false it
+   * auto-selects an immediately available credential or rejects with NO_SAVED_CREDENTIAL,
+   * but Credential Manager still shows the picker for several authorized accounts.
+   * iOS refreshes without UI either way.
+   */
+  interactive: boolean;
+}>;
+
+export type GoogleSignInAuthorizationRequest = Readonly<{
+  scopes: ReadonlyArray<string>;
+  offlineAccess?: boolean;
+}>;
+
+export type GoogleSignInAuthorizationResult = Readonly<{
+  accessToken: string;
+  grantedScopes: ReadonlyArray<string>;
+  serverAuthCode?: string | null;
+}>;
+
 export interface Spec extends TurboModule {
-  configure(webClientId: string): Promise<void>;
+  configure(config: GoogleSignInNativeConfig): Promise<void>;
   isPlayServicesAvailable(): Promise<boolean>;
-  signIn(): Promise<GoogleSignInResult>;
-  signInSilently(): Promise<GoogleSignInResult>;
-  getTokens(): Promise<GoogleSignInTokens>;
+  signIn(options: GoogleSignInNativeSignInOptions): Promise<GoogleSignInResult>;
+  signInSilently(
+    options: GoogleSignInNativeSignInOptions
+  ): Promise<GoogleSignInResult>;
+  presentExplicitSignIn(
+    options: GoogleSignInNativeSignInOptions
+  ): Promise<GoogleSignInResult>;
+  getTokens(
+    options: GoogleSignInNativeGetTokensOptions
+  ): Promise<GoogleSignInTokens>;
+  requestAuthorization(
+    request: GoogleSignInAuthorizationRequest
+  ): Promise<GoogleSignInAuthorizationResult>;
   signOut(): Promise<void>;
+  /**
+   * Revoke the app's grant and sign out. Android identifies the account by `accountEmail`;
+   * iOS revokes the current user and ignores it.
+   */
+  revokeAccess(accountEmail: string | null): Promise<void>;
   isSignedIn(): Promise<boolean>;
+  /**
+   * Serialized session saved by `writeSession`, kept in SharedPreferences on Android
+   * and NSUserDefaults on iOS. `null` when there is none.
+   */
+  readSession(): Promise<string | null>;
+  /**
+   * Save the serialized session, or delete it when `session` is `null`
+   */
+  writeSession(session: string | null): Promise<void>;
 }
 
 export default TurboModuleRegistry.getEnforcing<Spec>('GoogleSigninModern');
@@ -4,46 +4,167 @@
  */
 
 import type {
+  GoogleSignInAuthorizationRequest,
+  GoogleSignInAuthorizationResult,
+  GoogleSignInNativeConfig,
+  GoogleSignInNativeGetTokensOptions,
+  GoogleSignInNativeSignInOptions,
   GoogleSignInResult,
   GoogleSignInTokens,
 } from '../../NativeGoogleSigninModern';
+import { createMockIdToken } from '../factories';
 
 // Mock state to control responses
 interface MockState {
   isConfigured: boolean;
+  webClientId: string | null;
+  scopes: ReadonlyArray<string>;
+  offlineAccess: boolean;
   isPlayServicesAvailable: boolean;
   isSignedIn: boolean;
+  hasGoogleAccounts: boolean;
+  hasAuthorizedAccount: boolean;
   currentUser: GoogleSignInResult['user'] | null;
+  grantedScopes: ReadonlyArray<string>;
+  authorizationDenied: boolean;
   shouldThrow: boolean;
   throwError?: Error;
   signInDelay?: number;
   signInInProgress: boolean;
+  // Stands in for SharedPreferences / NSUserDefaults
+  persistedSession: string | null;
+  // Workspace domain of the account, reported as the ID token's `hd` claim
+  accountHostedDomain: string | null;
 }
 
 const defaultMockState: MockState = {
   isConfigured: false,
+  webClientId: null,
+  scopes: [],
+  offlineAccess: false,
   isPlayServicesAvailable: true,
   isSignedIn: false,
+  hasGoogleAccounts: true,
+  hasAuthorizedAccount: false,
   currentUser: null,
+  grantedScopes: [],
+  authorizationDenied: false,
   shouldThrow: false,
   signInInProgress: false,
+  persistedSession: null,
+  accountHostedDomain: null,
 };
 
 let mockState = { ...defaultMockState };
 
+/**
+ * ID token for the given user, issued to the configured client ID
+ */
+const mockIdTokenFor = (
+  user: GoogleSignInResult['user'],
+  nonce?: string | null
+): string =>
+  createMockIdToken({
+    aud: mockState.webClientId ?? 'mock-client-id.apps.googleusercontent.com',
+    sub: user.id,
+    email: user.email,
+    email_verified: true,
+    ...(user.name && { name: user.name }),
+    ...(user.photo && { picture: user.photo }),
+    ...(nonce && { nonce }),
+    ...(mockState.accountHostedDomain && { hd: mockState.accountHostedDomain }),
+  });
+
+/**
+ * Rejection the native modules use before configure() is called
+ */
+const notConfiguredError = () =>
+  Object.assign(new Error('Not configured'), { code: 'NOT_CONFIGURED' });
+
+/**
+ * Shared interactive sign-in behaviour; `checkAccounts` throws when no account matches
+ */
+const performMockSignIn = async (
+  options: GoogleSignInNativeSignInOptions | undefined,
+  checkAccounts: () => void
+): Promise<GoogleSignInResult> => {
+  if (mockState.shouldThrow) {
+    throw mockState.throwError || new Error('Sign in failed');
+  }
+
+  if (!mockState.isConfigured) {
+    throw notConfiguredError();
+  }
+
+  if (mockState.signInInProgress) {
+    const error = new Error('Sign-in already in progress') as any;
+    error.code = 'SIGN_IN_IN_PROGRESS';
+    throw error;
+  }
+
+  if (!mockState.isPlayServicesAvailable) {
+    const error = new Error('Google Play Services not available') as any;
+    error.code = 'PLAY_SERVICES_NOT_AVAILABLE';
+    throw error;
+  }
+
+  checkAccounts();
+
+  // Set sign in as in progress
+  mockState.signInInProgress = true;
+
+  try {
+    // Simulate delay if specified
+    if (mockState.signInDelay) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, mockState.signInDelay)
+      );
+    }
+
+    const user = mockState.currentUser || {
+      id: 'test@example.com',
+      email: 'test@example.com',
+      name: 'Test User',
+      photo: 'https://example.com/photo.jpg',
+    };
+
+    mockState.isSignedIn = true;
+    mockState.hasAuthorizedAccount = true;
+    mockState.currentUser = user;
+
+    return {
+      idToken: mockIdTokenFor(user, options?.nonce),
+      // Native modules omit the auth code entirely unless offline access was requested
+      ...(mockState.offlineAccess && {
+        serverAuthCode: 'mock-server-auth-code-' + Date.now(),
+      }),
+      nonce: options?.nonce ?? null,
+      user,
+    };
+  } finally {
+    // Clear sign in progress flag
+    mockState.signInInProgress = false;
+  }
+};
+
 // Mock implementation
 const mockNativeModule = {
-  configure: jest.fn(async (webClientId: string): Promise<void> => {
-    if (mockState.shouldThrow) {
-      throw mockState.throwError || new Error('Configure failed');
-    }
+  configure: jest.fn(
+    async (config: GoogleSignInNativeConfig): Promise<void> => {
+      if (mockState.shouldThrow) {
+        throw mockState.throwError || new Error('Configure failed');
+      }
 
-    if (!webClientId || typeof webClientId !== 'string') {
-      throw new Error('Invalid web client ID');
-    }
+      if (!config.webClientId || typeof config.webClientId !== 'string') {
+        throw new Error('Invalid web client ID');
+      }
 
-    mockState.isConfigured = true;
-  }),
+      mockState.isConfigured = true;
+      mockState.webClientId = config.webClientId;
+      mockState.scopes = config.scopes ?? ['openid', 'email', 'profile'];
+      mockState.offlineAccess = config.offlineAccess ?? false;
+    }
+  ),
 
   isPlayServicesAvailable: jest.fn(async (): Promise<boolean> => {
     if (mockState.shouldThrow) {
@@ -52,129 +173,202 @@ const mockNativeModule = {
     return mockState.isPlayServicesAvailable;
   }),
 
-  signIn: jest.fn(async (): Promise<GoogleSignInResult> => {
-    if (mockState.shouldThrow) {
-      throw mockState.throwError || new Error('Sign in failed');
-    }
+  signIn: jest.fn(
+    async (
+      options?: GoogleSignInNativeSignInOptions
+    ): Promise<GoogleSignInResult> => {
+      const accountFilter = options?.accountFilter ?? 'authorizedThenAll';
 
-    if (!mockState.isConfigured) {
-      throw new Error('Not configured');
-    }
+      // Like the explicit flow, the button flow lets users add an account
+      if (options?.presentation === 'button') {
+        return performMockSignIn(options, () => {});
+      }
 
-    if (mockState.signInInProgress) {
-      const error = new Error('Sign-in already in progress') as any;
-      error.code = 'SIGN_IN_IN_PROGRESS';
-      throw error;
+      return performMockSignIn(options, () => {
+        if (
+          accountFilter === 'authorizedOnly' &&
+          !mockState.hasAuthorizedAccount
+        ) {
+          const error = new Error('No authorized account found') as any;
+          error.code = 'NO_SAVED_CREDENTIAL';
+          throw error;
+        }
+
+        if (!mockState.hasGoogleAccounts && accountFilter === 'all') {
+          const error = new Error('No Google account on this device') as any;
+          error.code = 'NO_SAVED_CREDENTIAL';
+          throw error;
+        }
+
+        if (!mockState.hasGoogleAccounts) {
+          const error = new Error(
+            'Please add a Google account to continue'
+          ) as any;
+          error.code = 'NO_GOOGLE_ACCOUNTS';
+          throw error;
+        }
+      });
     }
+  ),
+
+  // The explicit flow lets users add an account, so it works without any on the device
+  presentExplicitSignIn: jest.fn(
+    async (
+      options?: GoogleSignInNativeSignInOptions
+    ): Promise<GoogleSignInResult> => performMockSignIn(options, () => {})
+  ),
+
+  signInSilently: jest.fn(
+    async (
+      options?: GoogleSignInNativeSignInOptions
+    ): Promise<GoogleSignInResult> => {
+      if (mockState.shouldThrow) {
+        throw mockState.throwError || new Error('Silent sign in failed');
+      }
 
-    if (!mockState.isPlayServicesAvailable) {
-      const error = new Error('Google Play Services not available') as any;
-      error.code = 'PLAY_SERVICES_NOT_AVAILABLE';
-      throw error;
-    }
-
-    // Set sign in as in progress
-    mockState.signInInProgress = true;
-
-    try {
-      // Simulate delay if specified
-      if (mockState.signInDelay) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, mockState.signInDelay)
-        );
+      if (!mockState.isConfigured) {
+        throw notConfiguredError();
       }
 
-      const user = mockState.currentUser || {
-        id: 'test@example.com',
-        email: 'test@example.com',
-        name: 'Test User',
-        photo: 'https://example.com/photo.jpg',
-      };
+      if (mockState.signInInProgress) {
+        const error = new Error('Sign-in already in progress') as any;
+        error.code = 'SIGN_IN_IN_PROGRESS';
+        throw error;
+      }
 
-      mockState.isSignedIn = true;
-      mockState.currentUser = user;
+      if (!mockState.isSignedIn || !mockState.currentUser) {
+        const error = new Error('No signed in user') as any;
+        error.code = 'SIGN_IN_REQUIRED';
+        throw error;
+      }
 
-      return {
-        idToken: 'mock-id-token-' + Date.now() + '-' + Math.random(),
-        user,
-      };
-    } finally {
-      // Clear sign in progress flag
-      mockState.signInInProgress = false;
+      // Set sign in as in progress
+      mockState.signInInProgress = true;
+
+      try {
+        // Simulate delay if specified
+        if (mockState.signInDelay) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, mockState.signInDelay)
+          );
+        }
+
+        return {
+          idToken: mockIdTokenFor(mockState.currentUser, options?.nonce),
+          nonce: options?.nonce ?? null,
+          user: mockState.currentUser,
+        };
+      } finally {
+        // Clear sign in progress flag
+        mockState.signInInProgress = false;
+      }
     }
-  }),
+  ),
+
+  getTokens: jest.fn(
+    async (
+      _options?: GoogleSignInNativeGetTokensOptions
+    ): Promise<GoogleSignInTokens> => {
+      if (mockState.shouldThrow) {
+        throw mockState.throwError || new Error('Get tokens failed');
+      }
 
-  signInSilently: jest.fn(async (): Promise<GoogleSignInResult> => {
-    if (mockState.shouldThrow) {
-      throw mockState.throwError || new Error('Silent sign in failed');
-    }
+      if (!mockState.isConfigured) {
+        throw notConfiguredError();
+      }
 
-    if (!mockState.isConfigured) {
-      throw new Error('Not configured');
-    }
+      if (!mockState.isSignedIn) {
+        const error = new Error('No signed in user') as any;
+        error.code = 'NO_USER';
+        throw error;
+      }
 
-    if (mockState.signInInProgress) {
-      const error = new Error('Sign-in already in progress') as any;
-      error.code = 'SIGN_IN_IN_PROGRESS';
-      throw error;
+      return {
+        idToken: mockIdTokenFor(
+          mockState.currentUser ?? {
+            id: 'test@example.com',
+            email: 'test@example.com',
+            name: null,
+            photo: null,
+          }
+        ),
+        accessToken: 'mock-access-token-' + Date.now() + '-' + Math.random(),
+      };
     }
+  ),
+
+  requestAuthorization: jest.fn(
+    async (
+      request: GoogleSignInAuthorizationRequest
+    ): Promise<GoogleSignInAuthorizationResult> => {
+      if (mockState.shouldThrow) {
+        throw mockState.throwError || new Error('Authorization failed');
+      }
 
-    if (!mockState.isSignedIn || !mockState.currentUser) {
-      const error = new Error('No signed in user') as any;
-      error.code = 'NO_SIGNED_IN_USER';
-      throw error;
-    }
+      if (!mockState.isConfigured) {
+        throw notConfiguredError();
+      }
 
-    // Set sign in as in progress
-    mockState.signInInProgress = true;
+      if (!mockState.isSignedIn) {
+        const error = new Error('No signed in user') as any;
+        error.code = 'NO_USER';
+        throw error;
+      }
 
-    try {
-      // Simulate delay if specified
-      if (mockState.signInDelay) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, mockState.signInDelay)
-        );
+      if (mockState.authorizationDenied) {
+        const error = new Error(
+          'The user did not grant the requested scopes'
+        ) as any;
+        error.code = 'AUTHORIZATION_DENIED';
+        throw error;
       }
 
+      mockState.grantedScopes = Array.from(
+        new Set([
+          ...mockState.scopes,
+          ...mockState.grantedScopes,
+          ...request.scopes,
+        ])
+      );
+
       return {
-        idToken: 'mock-silent-id-token-' + Date.now() + '-' + Math.random(),
-        user: mockState.currentUser,
+        accessToken: 'mock-access-token-' + Date.now() + '-' + Math.random(),
+        grantedScopes: mockState.grantedScopes,
+        serverAuthCode: request.offlineAccess
+          ? 'mock-server-auth-code-' + Date.now()
+          : null,
       };
-    } finally {
-      // Clear sign in progress flag
-      mockState.signInInProgress = false;
     }
-  }),
+  ),
 
-  getTokens: jest.fn(async (): Promise<GoogleSignInTokens> => {
+  signOut: jest.fn(async (): Promise<void> => {
     if (mockState.shouldThrow) {
-      throw mockState.throwError || new Error('Get tokens failed');
+      throw mockState.throwError || new Error('Sign out failed');
     }
 
-    if (!mockState.isConfigured) {
-      throw new Error('Not configured');
+    mockState.isSignedIn = false;
+    mockState.currentUser = null;
+    mockState.grantedScopes = [];
+    mockState.signInInProgress = false; // Clear any pending sign-in operations
+    mockState.persistedSession = null;
+  }),
+
+  revokeAccess: jest.fn(async (_accountEmail: string | null): Promise<void> => {
+    if (mockState.shouldThrow) {
+      throw mockState.throwError || new Error('Revoke access failed');
     }
 
     if (!mockState.isSignedIn) {
       const error = new Error('No signed in user') as any;
-      error.code = 'NO_SIGNED_IN_USER';
+      error.code = 'NO_USER';
       throw error;
     }
 
-    return {
-      idToken: 'mock-fresh-id-token-' + Date.now() + '-' + Math.random(),
-      accessToken: 'mock-access-token-' + Date.now() + '-' + Math.random(),
-    };
-  }),
-
-  signOut: jest.fn(async (): Promise<void> => {
-    if (mockState.shouldThrow) {
-      throw mockState.throwError || new Error('Sign out failed');
-    }
-
     mockState.isSignedIn = false;
+    mockState.hasAuthorizedAccount = false;
     mockState.currentUser = null;
-    mockState.signInInProgress = false; // Clear any pending sign-in operations
+    mockState.grantedScopes = [];
+    mockState.persistedSession = null;
   }),
 
   isSignedIn: jest.fn(async (): Promise<boolean> => {
@@ -184,6 +378,14 @@ const mockNativeModule = {
 
     return mockState.isSignedIn;
   }),
+
+  readSession: jest.fn(async (): Promise<string | null> => {
+    return mockState.persistedSession;
+  }),
+
+  writeSession: jest.fn(async (session: string | null): Promise<void> => {
+    mockState.persistedSession = session;
+  }),
 };
 
 // Mock control utilities
@@ -222,6 +424,7 @@ export const mockGoogleSignIn = {
 
   setSignedIn: (user?: GoogleSignInResult['user']) => {
     mockState.isSignedIn = true;
+    mockState.hasAuthorizedAccount = true;
     mockState.currentUser = user || {
       id: 'test@example.com',
       email: 'test@example.com',
@@ -230,6 +433,23 @@ export const mockGoogleSignIn = {
     };
   },
 
+  // Simulate a session saved by an earlier launch
+  setPersistedSession: (session: string | null) => {
+    mockState.persistedSession = session;
+  },
+
+  setAccountHostedDomain: (hostedDomain: string | null) => {
+    mockState.accountHostedDomain = hostedDomain;
+  },
+
+  setNoGoogleAccounts: () => {
+    mockState.hasGoogleAccounts = false;
+  },
+
+  setAuthorizationDenied: (denied: boolean = true) => {
+    mockState.authorizationDenied = denied;
+  },
+
   setError: (error: Error) => {
     mockState.shouldThrow = true;
     mockState.throwError = error;
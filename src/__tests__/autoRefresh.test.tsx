@@ -0,0 +1,283 @@
+/**
+ * Tests for the token auto-refresh scheduler
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import { AppState, Platform, type AppStateStatus } from 'react-native';
+import { GoogleSignInModule } from '../index';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import { createMockIdToken } from './factories';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  expectErrorCode,
+  setupSignedInUser,
+} from './test-utils';
+
+const HOUR_MS = 3600 * 1000;
+
+const refreshError = (code: string) =>
+  Object.assign(new Error(`Refresh failed: ${code}`), { code });
+
+describe('Token auto-refresh', () => {
+  let changeAppState: (state: AppStateStatus) => void;
+  let removeAppStateListener: jest.Mock;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await commonTestSetup();
+    // A whole second, so token expiries (in seconds) line up with timer delays.
+    // Set after commonTestSetup(), whose clearAllTimers() resets the clock.
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    removeAppStateListener = jest.fn();
+    jest
+      .spyOn(AppState, 'addEventListener')
+      .mockImplementation((_type, handler) => {
+        changeAppState = handler;
+        return { remove: removeAppStateListener };
+      });
+    await setupSignedInUser();
+    // Sign in through the module so it knows the ID token's expiry
+    await GoogleSignInModule.signIn();
+  });
+
+  afterEach(() => {
+    GoogleSignInModule.disableAutoRefresh();
+    commonTestCleanup();
+    jest.useRealTimers();
+  });
+
+  it('should refresh leewaySeconds before the ID token expires', async () => {
+    const listener = jest.fn();
+    GoogleSignInModule.addListener('tokensRefreshed', listener);
+    GoogleSignInModule.enableAutoRefresh({ leewaySeconds: 120 });
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS - 121 * 1000);
+    expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(await GoogleSignInModule.getTokens());
+  });
+
+  it('should keep refreshing as new tokens arrive', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(3 * HOUR_MS);
+
+    // The default leeway of 60 seconds fits three refreshes into three hours
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reschedule after a manual refresh', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+    await jest.advanceTimersByTimeAsync(HOUR_MS / 2);
+
+    await GoogleSignInModule.getTokens();
+    await jest.advanceTimersByTimeAsync(HOUR_MS / 2);
+
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failures with exponential backoff', async () => {
+    mockGoogleSignIn.mocks.getTokens
+      .mockRejectedValueOnce(refreshError('TOKEN_REFRESH_ERROR'))
+      .mockRejectedValueOnce(refreshError('TOKEN_REFRESH_ERROR'));
+    const listener = jest.fn();
+    GoogleSignInModule.addListener('tokensRefreshed', listener);
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS - 60 * 1000);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off when the platform returns the same token', async () => {
+    const staleToken = {
+      idToken: createMockIdToken({
+        exp: Math.floor((Date.now() + HOUR_MS) / 1000),
+      }),
+      accessToken: 'stale-access-token',
+    };
+    mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce(staleToken);
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS - 60 * 1000);
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when there is no user to refresh', async () => {
+    mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+      refreshError('NO_USER')
+    );
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(3 * HOUR_MS);
+
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh non-interactively', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS);
+    await GoogleSignInModule.getTokens({ forceRefresh: true });
+
+    expect(mockGoogleSignIn.mocks.getTokens.mock.calls).toEqual([
+      [{ interactive: false }],
+      [{ interactive: true }],
+    ]);
+  });
+
+  it('should stop when no credential is available without UI', async () => {
+    mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+      refreshError('NO_SAVED_CREDENTIAL')
+    );
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(3 * HOUR_MS);
+
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+    expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+  });
+
+  it('should retry interactively when a manual call joins a refresh that needed UI', async () => {
+    let rejectRefresh!: (error: Error) => void;
+    mockGoogleSignIn.mocks.getTokens.mockImplementationOnce(
+      () =>
+        new Promise((_, reject) => {
+          rejectRefresh = reject;
+        })
+    );
+    GoogleSignInModule.enableAutoRefresh();
+    await jest.advanceTimersByTimeAsync(HOUR_MS - 60 * 1000);
+
+    const tokens = GoogleSignInModule.getTokens({ forceRefresh: true });
+    rejectRefresh(refreshError('NO_SAVED_CREDENTIAL'));
+
+    await expect(tokens).resolves.toHaveProperty('accessToken');
+    expect(mockGoogleSignIn.mocks.getTokens.mock.calls).toEqual([
+      [{ interactive: false }],
+      [{ interactive: true }],
+    ]);
+  });
+
+  it('should stop scheduling after signOut', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    await GoogleSignInModule.signOut();
+    await jest.advanceTimersByTimeAsync(3 * HOUR_MS);
+
+    expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+  });
+
+  it('should pause in the background and catch up in the foreground', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    changeAppState('background');
+    await jest.advanceTimersByTimeAsync(2 * HOUR_MS);
+    expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+
+    changeAppState('active');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep running while the app is only inactive', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    changeAppState('inactive');
+    await jest.advanceTimersByTimeAsync(HOUR_MS);
+
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the timer and app state listener when disabled', async () => {
+    GoogleSignInModule.enableAutoRefresh();
+
+    GoogleSignInModule.disableAutoRefresh();
+    await jest.advanceTimersByTimeAsync(2 * HOUR_MS);
+
+    expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+    expect(removeAppStateListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run on Android unless asked to', async () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS);
+    expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+    expect(AppState.addEventListener).not.toHaveBeenCalled();
+
+    GoogleSignInModule.enableAutoRefresh({ runOnAndroid: true });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should subscribe to app state changes only once', () => {
+    GoogleSignInModule.enableAutoRefresh();
+    GoogleSignInModule.enableAutoRefresh({ leewaySeconds: 300 });
+
+    expect(AppState.addEventListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a negative leeway', () => {
+    let thrown: unknown;
+    try {
+      GoogleSignInModule.enableAutoRefresh({ leewaySeconds: -5 });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expectErrorCode(thrown, 'INVALID_ARGUMENT');
+  });
+
+  it('should isolate listener errors', async () => {
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const failing = jest.fn(() => {
+      throw new Error('listener bug');
+    });
+    const healthy = jest.fn();
+    GoogleSignInModule.addListener('tokensRefreshed', failing);
+    GoogleSignInModule.addListener('tokensRefreshed', healthy);
+    GoogleSignInModule.enableAutoRefresh();
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS);
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop notifying removed listeners', async () => {
+    const listener = jest.fn();
+    const remove = GoogleSignInModule.addListener('tokensRefreshed', listener);
+
+    remove();
+    await GoogleSignInModule.getTokens();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for the GoogleSigninButton component
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react-native';
+import { GoogleSigninButton, GoogleSignInModule } from '../index';
+import { _resetHooksForTesting } from '../hooks';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  setupConfiguredState,
+} from './test-utils';
+
+describe('GoogleSigninButton', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+    _resetHooksForTesting();
+    await setupConfiguredState();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('Rendering', () => {
+    it.each([
+      ['light', 'standard'],
+      ['dark', 'pill'],
+      ['neutral', 'icon'],
+    ] as const)('should match the snapshot for %s %s', (theme, shape) => {
+      const { toJSON } = render(
+        <GoogleSigninButton theme={theme} shape={shape} />
+      );
+
+      expect(toJSON()).toMatchSnapshot();
+    });
+
+    it('should show the requested call to action', () => {
+      render(<GoogleSigninButton label="continue" />);
+
+      expect(screen.getByText('Continue with Google')).toBeTruthy();
+    });
+
+    it('should localize the label', () => {
+      render(<GoogleSigninButton label="signUp" locale="es-MX" />);
+
+      expect(screen.getByText('Registrarse con Google')).toBeTruthy();
+    });
+
+    it('should fall back to English for unsupported locales', () => {
+      render(<GoogleSigninButton locale="xx" />);
+
+      expect(screen.getByText('Sign in with Google')).toBeTruthy();
+    });
+
+    it('should prefer custom text', () => {
+      render(<GoogleSigninButton text="Googlen kautta" />);
+
+      expect(screen.getByText('Googlen kautta')).toBeTruthy();
+    });
+
+    it('should only render the logo for the icon shape', () => {
+      render(<GoogleSigninButton shape="icon" />);
+
+      expect(screen.queryByText('Sign in with Google')).toBeNull();
+      expect(
+        screen.getByRole('button', { name: 'Sign in with Google' })
+      ).toBeTruthy();
+    });
+  });
+
+  describe('Accessibility', () => {
+    it('should expose the label to screen readers', () => {
+      render(<GoogleSigninButton label="continue" locale="fr" />);
+
+      expect(
+        screen.getByRole('button', { name: 'Continuer avec Google' })
+      ).toBeTruthy();
+    });
+
+    it('should accept a custom accessibility label', () => {
+      render(<GoogleSigninButton accessibilityLabel="Log in" />);
+
+      expect(screen.getByRole('button', { name: 'Log in' })).toBeTruthy();
+    });
+
+    it('should report the disabled state', () => {
+      render(<GoogleSigninButton disabled />);
+
+      expect(screen.getByRole('button')).toBeDisabled();
+    });
+  });
+
+  describe('Pressing', () => {
+    it('should sign in with the button presentation by default', async () => {
+      render(<GoogleSigninButton />);
+
+      fireEvent.press(screen.getByRole('button'));
+
+      await waitFor(() =>
+        expect(GoogleSignInModule.getCurrentUser()).not.toBeNull()
+      );
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith(
+        expect.objectContaining({ presentation: 'button' })
+      );
+    });
+
+    it('should call a custom onPress instead', () => {
+      const onPress = jest.fn();
+      render(<GoogleSigninButton onPress={onPress} />);
+
+      fireEvent.press(screen.getByRole('button'));
+
+      expect(onPress).toHaveBeenCalledTimes(1);
+      expect(mockGoogleSignIn.mocks.signIn).not.toHaveBeenCalled();
+    });
+
+    it('should ignore presses while disabled', () => {
+      const onPress = jest.fn();
+      render(<GoogleSigninButton onPress={onPress} disabled />);
+
+      fireEvent.press(screen.getByRole('button'));
+
+      expect(onPress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Loading state', () => {
+    it('should show a spinner while a sign-in is in progress', async () => {
+      mockGoogleSignIn.setSignInDelay(50);
+      render(<GoogleSigninButton />);
+
+      let pending: Promise<unknown>;
+      act(() => {
+        pending = GoogleSignInModule.signIn();
+      });
+
+      const button = screen.getByRole('button');
+      expect(button).toBeBusy();
+      expect(button).toBeDisabled();
+
+      await act(async () => {
+        await pending;
+      });
+      expect(screen.getByRole('button')).not.toBeBusy();
+      expect(screen.getByRole('button')).toBeEnabled();
+    });
+
+    it('should let the loading prop override the sign-in state', () => {
+      render(<GoogleSigninButton loading />);
+
+      expect(screen.getByRole('button')).toBeBusy();
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Tests for client IDs and environment profiles in configure()
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import {
+  GoogleSignInModule,
+  validateConfig,
+  type GoogleSignInConfig,
+} from '../index';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  expectErrorCode,
+  expectToThrow,
+} from './test-utils';
+
+const WEB_CLIENT_ID = '123-web.apps.googleusercontent.com';
+const IOS_CLIENT_ID = '123-ios.apps.googleusercontent.com';
+
+const profiles = {
+  dev: {
+    webClientId: '456-web.apps.googleusercontent.com',
+    iosClientId: '456-ios.apps.googleusercontent.com',
+  },
+  prod: { webClientId: '123-prod.apps.googleusercontent.com' },
+};
+
+const nativeConfig = () =>
+  mockGoogleSignIn.mocks.configure.mock.calls.at(-1)?.[0];
+
+describe('Configuration', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('client IDs', () => {
+    it('should pass the iOS client ID next to the web client ID', async () => {
+      await GoogleSignInModule.configure({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+      });
+
+      expect(nativeConfig()).toMatchObject({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+      });
+    });
+
+    it('should trim client IDs', async () => {
+      await GoogleSignInModule.configure({
+        webClientId: ` ${WEB_CLIENT_ID}\n`,
+        iosClientId: ` ${IOS_CLIENT_ID}`,
+      });
+
+      expect(nativeConfig()).toMatchObject({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+      });
+    });
+
+    it('should require a web client ID', async () => {
+      await expectToThrow(
+        () => GoogleSignInModule.configure({ iosClientId: IOS_CLIENT_ID }),
+        'webClientId is required'
+      );
+      expect(mockGoogleSignIn.mocks.configure).not.toHaveBeenCalled();
+    });
+
+    it('should reject the web client ID in the iOS slot', async () => {
+      const error = await GoogleSignInModule.configure({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: WEB_CLIENT_ID,
+      }).catch((e: unknown) => e);
+
+      expectErrorCode(error, 'INVALID_ARGUMENT');
+      expect((error as Error).message).toBe(
+        'iosClientId must be the client ID of an iOS OAuth client, not the webClientId'
+      );
+    });
+
+    it('should reject a client ID that is not a string', async () => {
+      await expectToThrow(
+        () =>
+          GoogleSignInModule.configure({
+            webClientId: WEB_CLIENT_ID,
+            iosClientId: 42 as never,
+          }),
+        'iosClientId must be a non-empty client ID, got 42'
+      );
+    });
+  });
+
+  describe('profiles', () => {
+    it('should use the client IDs of the selected profile', async () => {
+      await GoogleSignInModule.configure({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+        profiles,
+        profile: 'dev',
+      });
+
+      expect(nativeConfig()).toMatchObject(profiles.dev);
+    });
+
+    it('should fall back to top-level client IDs the profile leaves out', async () => {
+      await GoogleSignInModule.configure({
+        iosClientId: IOS_CLIENT_ID,
+        profiles,
+        profile: 'prod',
+      });
+
+      expect(nativeConfig()).toMatchObject({
+        webClientId: profiles.prod.webClientId,
+        iosClientId: IOS_CLIENT_ID,
+      });
+    });
+
+    it('should validate tokens against the profile web client ID', async () => {
+      await GoogleSignInModule.configure({
+        profiles,
+        profile: 'dev',
+        validateTokens: true,
+      });
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+    });
+
+    it.each<[string, Partial<GoogleSignInConfig>, string]>([
+      [
+        'a missing profile',
+        { profiles },
+        "profile is required when profiles are set; expected one of 'dev', 'prod'",
+      ],
+      [
+        'an unknown profile',
+        { profiles, profile: 'staging' },
+        "Unknown profile \"staging\"; expected one of 'dev', 'prod'",
+      ],
+      [
+        'a profile without profiles',
+        { webClientId: WEB_CLIENT_ID, profile: 'dev' },
+        'profile "dev" was given, but no profiles are configured',
+      ],
+      [
+        'empty profiles',
+        { webClientId: WEB_CLIENT_ID, profiles: {}, profile: 'dev' },
+        'profiles must define at least one profile',
+      ],
+      [
+        'a profile without a web client ID',
+        { profiles: { dev: { iosClientId: IOS_CLIENT_ID } }, profile: 'dev' },
+        "webClientId is required; set it in profile 'dev' or at the top level",
+      ],
+      [
+        'a blank client ID in a profile',
+        { profiles: { dev: { webClientId: ' ' } }, profile: 'dev' },
+        'profiles.dev.webClientId must be a non-empty client ID, got " "',
+      ],
+    ])('should reject %s', async (_, config, message) => {
+      await expectToThrow(() => GoogleSignInModule.configure(config), message);
+      expect(mockGoogleSignIn.mocks.configure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateConfig', () => {
+    const codes = (config: GoogleSignInConfig) =>
+      validateConfig(config).map(({ severity, code }) => `${severity} ${code}`);
+
+    it('should accept a valid configuration', () => {
+      expect(
+        validateConfig({
+          webClientId: WEB_CLIENT_ID,
+          iosClientId: IOS_CLIENT_ID,
+          scopes: ['openid', 'email', 'https://www.googleapis.com/auth/drive'],
+          hostedDomain: 'example.com',
+        })
+      ).toEqual([]);
+    });
+
+    it('should describe each problem with a fix', () => {
+      expect(
+        validateConfig({ webClientId: WEB_CLIENT_ID, scopes: ['drive'] })
+      ).toEqual([
+        {
+          severity: 'error',
+          code: 'INVALID_SCOPE',
+          message: 'scopes[0] "drive" is not a valid OAuth scope',
+          hint: "Use 'openid', 'email', 'profile' or a full scope URL such as https://www.googleapis.com/auth/drive.readonly",
+        },
+      ]);
+    });
+
+    it('should report client IDs configure() would reject', () => {
+      expect(validateConfig({ profiles, profile: 'staging' })).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          code: 'INVALID_CLIENT_IDS',
+          message: "Unknown profile \"staging\"; expected one of 'dev', 'prod'",
+        }),
+      ]);
+    });
+
+    it.each<[string, GoogleSignInConfig, string[]]>([
+      [
+        'a malformed client ID',
+        { webClientId: 'my-project-id' },
+        ['warning MALFORMED_CLIENT_ID'],
+      ],
+      [
+        'a reversed iOS client ID',
+        {
+          webClientId: WEB_CLIENT_ID,
+          iosClientId: 'com.googleusercontent.apps.123-ios',
+        },
+        ['error REVERSED_CLIENT_ID'],
+      ],
+      [
+        'client IDs from different projects',
+        { webClientId: WEB_CLIENT_ID, iosClientId: profiles.dev.iosClientId },
+        ['error CLIENT_PROJECT_MISMATCH'],
+      ],
+      [
+        'several scopes in one string',
+        { webClientId: WEB_CLIENT_ID, scopes: ['openid email'] },
+        ['error INVALID_SCOPE'],
+      ],
+      [
+        'scopes that are not an array',
+        { webClientId: WEB_CLIENT_ID, scopes: 'openid' as never },
+        ['error INVALID_SCOPE'],
+      ],
+      [
+        'a repeated scope',
+        { webClientId: WEB_CLIENT_ID, scopes: ['openid', 'email', 'email'] },
+        ['warning DUPLICATE_SCOPE'],
+      ],
+      [
+        'an email address as hosted domain',
+        { webClientId: WEB_CLIENT_ID, hostedDomain: 'jane@example.com' },
+        ['error INVALID_HOSTED_DOMAIN'],
+      ],
+      [
+        'a hosted domain without the email scope',
+        {
+          webClientId: WEB_CLIENT_ID,
+          scopes: ['openid', 'profile'],
+          hostedDomain: 'example.com',
+        },
+        ['warning HOSTED_DOMAIN_WITHOUT_EMAIL_SCOPE'],
+      ],
+      [
+        'a token expiry margin longer than a token lives',
+        { webClientId: WEB_CLIENT_ID, tokenExpiryMarginSeconds: 3600 },
+        ['warning TOKEN_EXPIRY_MARGIN_TOO_LARGE'],
+      ],
+    ])('should flag %s', (_, config, expected) => {
+      expect(codes(config)).toEqual(expected);
+    });
+
+    it('should name the reversed client ID to use instead', () => {
+      const [diagnostic] = validateConfig({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: 'com.googleusercontent.apps.123-ios',
+      });
+
+      expect(diagnostic?.hint).toBe(
+        `Use '${IOS_CLIENT_ID}' instead; the reversed form is only the iOS URL scheme`
+      );
+    });
+  });
+
+  describe('development checks in configure', () => {
+    it('should reject with every error before reaching native', async () => {
+      await expectToThrow(
+        () =>
+          GoogleSignInModule.configure({
+            webClientId: WEB_CLIENT_ID,
+            scopes: ['openid email', 'drive'],
+          }),
+        [
+          'scopes[0] "openid email" is not a valid OAuth scope. Pass each scope as its own array entry',
+          "scopes[1] \"drive\" is not a valid OAuth scope. Use 'openid', 'email', 'profile' or a full scope URL such as https://www.googleapis.com/auth/drive.readonly",
+        ].join('\n')
+      );
+      expect(mockGoogleSignIn.mocks.configure).not.toHaveBeenCalled();
+    });
+
+    it('should log warnings and still configure', async () => {
+      const consoleWarn = jest
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {});
+
+      await GoogleSignInModule.configure({
+        webClientId: WEB_CLIENT_ID,
+        scopes: ['openid', 'openid'],
+      });
+
+      expect(consoleWarn).toHaveBeenCalledWith(
+        "GoogleSignIn: scopes lists 'openid' more than once. Remove the duplicate entry"
+      );
+      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the checks in production builds', async () => {
+      const dev = __DEV__;
+      (global as unknown as { __DEV__: boolean }).__DEV__ = false;
+      try {
+        await GoogleSignInModule.configure({
+          webClientId: WEB_CLIENT_ID,
+          scopes: ['drive'],
+        });
+      } finally {
+        (global as unknown as { __DEV__: boolean }).__DEV__ = dev;
+      }
+
+      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
+    });
+  });
+});
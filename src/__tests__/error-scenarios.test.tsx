@@ -9,7 +9,12 @@ jest.mock(
   () => require('./__mocks__/NativeGoogleSigninModern').default
 );
 
-import { GoogleSignInModule } from '../index';
+import {
+  GoogleSignInError,
+  GoogleSignInErrorCode,
+  GoogleSignInModule,
+  isGoogleSignInError,
+} from '../index';
 import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
 import { mockErrors, createMockConfig } from './factories';
 import {
@@ -29,11 +34,66 @@ describe('GoogleSignInModule - Error Handling', () => {
     commonTestCleanup();
   });
 
+  describe('GoogleSignInError', () => {
+    it('should wrap native rejections with their code and original error', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setError(mockErrors.userCancelled);
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expect(error).toBeInstanceOf(GoogleSignInError);
+      expect(error.name).toBe('GoogleSignInError');
+      expect(error.code).toBe(GoogleSignInErrorCode.USER_CANCELLED);
+      expect(error.nativeCode).toBe('USER_CANCELLED');
+      expect(error.message).toBe(mockErrors.userCancelled.message);
+      expect(error.cause).toBe(mockErrors.userCancelled);
+    });
+
+    it('should report rejections without a code as UNKNOWN', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setError(new Error('Something broke'));
+
+      const error = await GoogleSignInModule.getTokens().catch((e) => e);
+
+      expect(error).toBeInstanceOf(GoogleSignInError);
+      expect(error.code).toBe(GoogleSignInErrorCode.UNKNOWN);
+      expect(error.nativeCode).toBeNull();
+      expect(error.message).toBe('Something broke');
+    });
+
+    it('should throw NOT_CONFIGURED from JS guards', async () => {
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expect(isGoogleSignInError(error, 'NOT_CONFIGURED')).toBe(true);
+      expect(error.nativeCode).toBeNull();
+    });
+
+    it('should throw INVALID_ARGUMENT for invalid options', async () => {
+      await setupConfiguredState();
+
+      const error = await GoogleSignInModule.requestAuthorization({
+        scopes: [],
+      }).catch((e) => e);
+
+      expect(isGoogleSignInError(error, 'INVALID_ARGUMENT')).toBe(true);
+    });
+
+    it('should narrow by code in isGoogleSignInError', () => {
+      const error = new GoogleSignInError('NO_USER', 'No user');
+
+      expect(isGoogleSignInError(error)).toBe(true);
+      expect(isGoogleSignInError(error, 'NO_USER')).toBe(true);
+      expect(isGoogleSignInError(error, 'SIGN_IN_REQUIRED')).toBe(false);
+      expect(isGoogleSignInError(new Error('plain'))).toBe(false);
+      expect(isGoogleSignInError({ code: 'NO_USER' })).toBe(false);
+    });
+  });
+
   describe('Configuration Errors', () => {
     it('should handle empty web client ID', async () => {
       await expectToThrow(
         () => GoogleSignInModule.configure({ webClientId: '' }),
-        'Invalid web client ID'
+        'webClientId must be a non-empty client ID, got ""'
       );
     });
 
@@ -59,13 +119,13 @@ describe('GoogleSignInModule - Error Handling', () => {
   describe('Sign In Errors', () => {
     it('should handle sign in cancellation by user', async () => {
       await setupConfiguredState();
-      mockGoogleSignIn.setError(mockErrors.signInCanceled);
+      mockGoogleSignIn.setError(mockErrors.userCancelled);
 
       try {
         await GoogleSignInModule.signIn();
         fail('Expected sign in to throw');
       } catch (error) {
-        expectErrorCode(error, 'SIGN_IN_CANCELLED');
+        expectErrorCode(error, 'USER_CANCELLED');
       }
     });
 
@@ -93,7 +153,9 @@ describe('GoogleSignInModule - Error Handling', () => {
         await GoogleSignInModule.signIn();
         fail('Expected timeout error');
       } catch (error) {
-        expectErrorCode(error, 'NETWORK_TIMEOUT');
+        // Codes the library does not know are reported as UNKNOWN
+        expectErrorCode(error, 'UNKNOWN');
+        expect((error as any).nativeCode).toBe('NETWORK_TIMEOUT');
       }
     });
 
@@ -105,7 +167,8 @@ describe('GoogleSignInModule - Error Handling', () => {
         await GoogleSignInModule.signIn();
         fail('Expected sign in to fail');
       } catch (error) {
-        expectErrorCode(error, 'SIGN_IN_FAILED');
+        expectErrorCode(error, 'UNKNOWN');
+        expect((error as any).nativeCode).toBe('SIGN_IN_FAILED');
       }
     });
   });
@@ -122,7 +185,8 @@ describe('GoogleSignInModule - Error Handling', () => {
         await GoogleSignInModule.getTokens();
         fail('Expected token error');
       } catch (error) {
-        expectErrorCode(error, 'TOKEN_EXPIRED');
+        expectErrorCode(error, 'UNKNOWN');
+        expect((error as any).nativeCode).toBe('TOKEN_EXPIRED');
       }
     });
 
@@ -130,14 +194,14 @@ describe('GoogleSignInModule - Error Handling', () => {
       await setupConfiguredState();
 
       const refreshError = new Error('Token refresh failed') as any;
-      refreshError.code = 'TOKEN_REFRESH_FAILED';
+      refreshError.code = 'TOKEN_REFRESH_ERROR';
       mockGoogleSignIn.setError(refreshError);
 
       try {
         await GoogleSignInModule.getTokens();
         fail('Expected refresh error');
       } catch (error) {
-        expectErrorCode(error, 'TOKEN_REFRESH_FAILED');
+        expectErrorCode(error, 'TOKEN_REFRESH_ERROR');
       }
     });
 
@@ -149,7 +213,8 @@ describe('GoogleSignInModule - Error Handling', () => {
         await GoogleSignInModule.getTokens();
         fail('Expected network error');
       } catch (error) {
-        expectErrorCode(error, 'NETWORK_ERROR');
+        expectErrorCode(error, 'UNKNOWN');
+        expect((error as any).nativeCode).toBe('NETWORK_ERROR');
       }
     });
   });
@@ -159,14 +224,14 @@ describe('GoogleSignInModule - Error Handling', () => {
       await setupConfiguredState();
 
       const noCacheError = new Error('No cached credentials') as any;
-      noCacheError.code = 'NO_CACHED_CREDENTIALS';
+      noCacheError.code = 'SIGN_IN_REQUIRED';
       mockGoogleSignIn.setError(noCacheError);
 
       try {
         await GoogleSignInModule.signInSilently();
         fail('Expected no cache error');
       } catch (error) {
-        expectErrorCode(error, 'NO_CACHED_CREDENTIALS');
+        expectErrorCode(error, 'SIGN_IN_REQUIRED');
       }
     });
 
@@ -181,7 +246,8 @@ describe('GoogleSignInModule - Error Handling', () => {
         await GoogleSignInModule.signInSilently();
         fail('Expected expired credentials error');
       } catch (error) {
-        expectErrorCode(error, 'CACHED_CREDENTIALS_EXPIRED');
+        expectErrorCode(error, 'UNKNOWN');
+        expect((error as any).nativeCode).toBe('CACHED_CREDENTIALS_EXPIRED');
       }
     });
   });
@@ -8,6 +8,7 @@ import type {
   GoogleSignInTokens,
 } from '../NativeGoogleSigninModern';
 import type { GoogleSignInConfig } from '../index';
+import type { GoogleIdTokenClaims } from '../jwt';
 
 // Counter for generating unique values
 let counter = 0;
@@ -29,6 +30,30 @@ export const createMockUser = (
   };
 };
 
+/**
+ * Factory for creating unsigned JWTs shaped like Google ID tokens.
+ * The random signature keeps tokens with identical claims distinct.
+ */
+export const createMockIdToken = (
+  claims: Partial<GoogleIdTokenClaims> = {}
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload: GoogleIdTokenClaims = {
+    iss: 'https://accounts.google.com',
+    aud: 'mock-client-id.apps.googleusercontent.com',
+    sub: '1234567890',
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  };
+  const signature = Buffer.from(
+    `mock-signature-${Date.now()}-${Math.random()}`
+  ).toString('base64url');
+  return `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(payload)}.${signature}`;
+};
+
 /**
  * Factory for creating mock Google Sign-In results
  */
@@ -36,10 +61,15 @@ export const createMockSignInResult = (
   userOverrides: Partial<GoogleSignInResult['user']> = {},
   resultOverrides: Partial<Omit<GoogleSignInResult, 'user'>> = {}
 ): GoogleSignInResult => {
-  const id = getUniqueId();
+  const user = createMockUser(userOverrides);
   return {
-    idToken: `mock-id-token-${id}-${Date.now()}`,
-    user: createMockUser(userOverrides),
+    idToken: createMockIdToken({
+      sub: user.id,
+      email: user.email,
+      email_verified: true,
+      ...(user.name !== undefined && user.name !== null && { name: user.name }),
+    }),
+    user,
     ...resultOverrides,
   };
 };
@@ -53,7 +83,7 @@ export const createMockTokens = (
   const id = getUniqueId();
   const timestamp = Date.now();
   return {
-    idToken: `mock-id-token-${id}-${timestamp}`,
+    idToken: createMockIdToken(),
     accessToken: `mock-access-token-${id}-${timestamp}`,
     ...overrides,
   };
@@ -64,10 +94,10 @@ export const createMockTokens = (
  */
 export const createMockConfig = (
   overrides: Partial<GoogleSignInConfig> = {}
-): GoogleSignInConfig => {
+): GoogleSignInConfig & { webClientId: string } => {
   const id = getUniqueId();
   return {
-    webClientId: `mock-client-id-${id}.googleusercontent.com`,
+    webClientId: `${id}-mockclient.apps.googleusercontent.com`,
     ...overrides,
   };
 };
@@ -162,6 +192,11 @@ export const mockErrors = {
     'SIGN_IN_CANCELLED'
   ),
 
+  userCancelled: createMockError(
+    'The user cancelled the sign-in flow',
+    'USER_CANCELLED'
+  ),
+
   signInFailed: createMockError('Sign in failed', 'SIGN_IN_FAILED'),
 
   networkError: createMockError('Network error occurred', 'NETWORK_ERROR'),
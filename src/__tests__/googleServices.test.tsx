@@ -0,0 +1,283 @@
+/**
+ * Tests for building a config from google-services.json and GoogleService-Info.plist
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  configFromGoogleServiceInfoPlist,
+  configFromGoogleServicesJson,
+  GoogleSignInModule,
+} from '../index';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  expectErrorCode,
+} from './test-utils';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+const WEB_CLIENT_ID =
+  '123456789012-web0a1b2c3d4e5f6a7b.apps.googleusercontent.com';
+const IOS_CLIENT_ID =
+  '123456789012-ios0a1b2c3d4e5f6a7b.apps.googleusercontent.com';
+const REVERSED_CLIENT_ID =
+  'com.googleusercontent.apps.123456789012-ios0a1b2c3d4e5f6a7b';
+
+/**
+ * Parsed google-services.json fixture whose `client` entries are changed by `edit`
+ */
+const editedJson = (edit: (client: any) => void, copies = 1) => {
+  const json = JSON.parse(fixture('google-services.json'));
+  json.client = Array.from({ length: copies }, (_, index) => {
+    const client = structuredClone(json.client[0]);
+    client.client_info.android_client_info.package_name = `com.example.app${index || ''}`;
+    edit(client);
+    return client;
+  });
+  return json;
+};
+
+const thrownBy = (fn: () => unknown): Error => {
+  try {
+    fn();
+  } catch (error) {
+    expectErrorCode(error, 'INVALID_ARGUMENT');
+    return error as Error;
+  }
+  throw new Error('Expected a GoogleSignInError');
+};
+
+describe('Config files', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('configFromGoogleServicesJson', () => {
+    it('should read the web and iOS client IDs', () => {
+      expect(
+        configFromGoogleServicesJson(fixture('google-services.json'))
+      ).toEqual({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+        reversedClientId: REVERSED_CLIENT_ID,
+      });
+    });
+
+    it('should accept the parsed file', () => {
+      const json = JSON.parse(fixture('google-services.json'));
+
+      expect(configFromGoogleServicesJson(json).webClientId).toBe(
+        WEB_CLIENT_ID
+      );
+    });
+
+    it('should leave out the iOS client ID when the project has no iOS app', () => {
+      const json = editedJson((client) => {
+        client.services.appinvite_service.other_platform_oauth_client = [];
+      });
+
+      expect(configFromGoogleServicesJson(json)).toEqual({
+        webClientId: WEB_CLIENT_ID,
+      });
+    });
+
+    it('should find the web client among the other platform clients', () => {
+      const json = editedJson((client) => {
+        client.oauth_client = [];
+      });
+
+      expect(configFromGoogleServicesJson(json).webClientId).toBe(
+        WEB_CLIENT_ID
+      );
+    });
+
+    it('should produce a config configure() accepts', async () => {
+      await GoogleSignInModule.configure({
+        ...configFromGoogleServicesJson(fixture('google-services.json')),
+        scopes: ['openid', 'email'],
+      });
+
+      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          webClientId: WEB_CLIENT_ID,
+          iosClientId: IOS_CLIENT_ID,
+          scopes: ['openid', 'email'],
+        })
+      );
+    });
+
+    it('should explain a missing web client before the SHA-1 is added', () => {
+      const error = thrownBy(() =>
+        configFromGoogleServicesJson(
+          fixture('google-services.no-web-client.json')
+        )
+      );
+
+      expect(error.message).toBe(
+        "google-services.json has no web OAuth client (client_type 3) for 'com.example.app'; add the SHA-1 fingerprint of your signing key, enable Google as a sign-in provider in the Firebase console and download the file again"
+      );
+    });
+
+    it('should explain a missing web client when only the Android client exists', () => {
+      const json = editedJson((client) => {
+        client.oauth_client = client.oauth_client.filter(
+          (oauthClient: any) => oauthClient.client_type === 1
+        );
+        client.services.appinvite_service.other_platform_oauth_client = [];
+      });
+
+      expect(thrownBy(() => configFromGoogleServicesJson(json)).message).toBe(
+        "google-services.json has no web OAuth client (client_type 3) for 'com.example.app'; enable Google as a sign-in provider in the Firebase console and download the file again"
+      );
+    });
+
+    it('should pick the app by package name', () => {
+      const json = editedJson((client) => {
+        if (
+          client.client_info.android_client_info.package_name !==
+          'com.example.app1'
+        ) {
+          client.oauth_client = [];
+          client.services.appinvite_service.other_platform_oauth_client = [];
+        }
+      }, 2);
+
+      expect(
+        configFromGoogleServicesJson(json, { packageName: 'com.example.app1' })
+          .webClientId
+      ).toBe(WEB_CLIENT_ID);
+    });
+
+    it.each([
+      [
+        'several apps without a package name',
+        editedJson(() => {}, 2),
+        {},
+        "google-services.json lists several apps; pass packageName to pick one of 'com.example.app', 'com.example.app1'",
+      ],
+      [
+        'an unknown package name',
+        editedJson(() => {}),
+        { packageName: 'com.example.other' },
+        "google-services.json has no app with package name 'com.example.other'; it lists 'com.example.app'",
+      ],
+      [
+        'an unknown bundle ID',
+        editedJson(() => {}),
+        { bundleId: 'com.example.other' },
+        "google-services.json has no iOS OAuth client for bundle ID 'com.example.other'; it has 'com.example.app'",
+      ],
+      [
+        'a file without apps',
+        { project_info: {}, client: [] },
+        {},
+        'google-services.json lists no apps in "client"',
+      ],
+      [
+        'another kind of file',
+        { type: 'service_account' },
+        {},
+        'google-services.json must be an object with a "client" array; is this the Android config file?',
+      ],
+      [
+        'invalid JSON',
+        '{"client": [',
+        {},
+        'google-services.json is not valid JSON',
+      ],
+    ])('should reject %s', (_, json, options, message) => {
+      expect(
+        thrownBy(() => configFromGoogleServicesJson(json, options)).message
+      ).toBe(message);
+    });
+  });
+
+  describe('configFromGoogleServiceInfoPlist', () => {
+    const plist = fixture('GoogleService-Info.plist');
+    const withServerClientId = plist.replace(
+      '<key>API_KEY</key>',
+      `<key>SERVER_CLIENT_ID</key>\n\t<string>${WEB_CLIENT_ID}</string>\n\t<key>API_KEY</key>`
+    );
+
+    it('should read the client IDs', () => {
+      expect(configFromGoogleServiceInfoPlist(withServerClientId)).toEqual({
+        webClientId: WEB_CLIENT_ID,
+        iosClientId: IOS_CLIENT_ID,
+        reversedClientId: REVERSED_CLIENT_ID,
+      });
+    });
+
+    it('should take the web client ID from the options when the plist has none', () => {
+      expect(
+        configFromGoogleServiceInfoPlist(plist, { webClientId: WEB_CLIENT_ID })
+          .webClientId
+      ).toBe(WEB_CLIENT_ID);
+    });
+
+    it('should prefer the plist web client ID over the options', () => {
+      expect(
+        configFromGoogleServiceInfoPlist(withServerClientId, {
+          webClientId: 'other.apps.googleusercontent.com',
+        }).webClientId
+      ).toBe(WEB_CLIENT_ID);
+    });
+
+    it('should combine with the Android file', () => {
+      const { webClientId } = configFromGoogleServicesJson(
+        fixture('google-services.json')
+      );
+
+      expect(configFromGoogleServiceInfoPlist(plist, { webClientId })).toEqual(
+        configFromGoogleServicesJson(fixture('google-services.json'))
+      );
+    });
+
+    it('should decode XML entities', () => {
+      const escaped = withServerClientId.replace('-ios0a1b', '-ios&#x30;a1b');
+
+      expect(configFromGoogleServiceInfoPlist(escaped).iosClientId).toBe(
+        IOS_CLIENT_ID
+      );
+    });
+
+    it.each([
+      [
+        'a plist without a web client ID',
+        plist,
+        'GoogleService-Info.plist has no SERVER_CLIENT_ID; pass the web client ID (client_type 3 in google-services.json) as webClientId',
+      ],
+      [
+        'a plist without CLIENT_ID',
+        plist.replace(/<key>CLIENT_ID<\/key>\s*<string>[^<]*<\/string>/, ''),
+        'GoogleService-Info.plist has no CLIENT_ID; enable Google as a sign-in provider in the Firebase console and download the file again',
+      ],
+      [
+        'a binary plist',
+        'bplist00Ñ\u0001\u0002',
+        'GoogleService-Info.plist is a binary plist; convert it with `plutil -convert xml1` first',
+      ],
+      [
+        'JSON',
+        fixture('google-services.json'),
+        'GoogleService-Info.plist must be an XML property list with a top-level <dict>',
+      ],
+    ])('should reject %s', (_, xml, message) => {
+      expect(
+        thrownBy(() => configFromGoogleServiceInfoPlist(xml)).message
+      ).toBe(message);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for the useGoogleSignIn and useGoogleUser React hooks
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import {
+  GoogleSignInErrorCode,
+  GoogleSignInModule,
+  useGoogleSignIn,
+  useGoogleUser,
+} from '../index';
+import { _resetHooksForTesting } from '../hooks';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import { mockErrors, mockUsers } from './factories';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  setupConfiguredState,
+} from './test-utils';
+
+describe('React hooks', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+    _resetHooksForTesting();
+    await setupConfiguredState();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('useGoogleSignIn', () => {
+    it('should start signed out', () => {
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      expect(result.current.user).toBeNull();
+      expect(result.current.status).toBe('signedOut');
+      expect(result.current.error).toBeNull();
+    });
+
+    it('should sign in and expose the user', async () => {
+      mockGoogleSignIn.setState({ currentUser: mockUsers.complete });
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      let signInResult;
+      await act(async () => {
+        signInResult = await result.current.signIn();
+      });
+
+      expect(signInResult).toBeGoogleSignInResult();
+      expect(result.current.user).toEqual(mockUsers.complete);
+      expect(result.current.status).toBe('signedIn');
+    });
+
+    it('should report loading while signing in', async () => {
+      mockGoogleSignIn.setSignInDelay(50);
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      let pending: Promise<unknown>;
+      act(() => {
+        pending = result.current.signIn();
+      });
+
+      expect(result.current.status).toBe('loading');
+      await act(async () => {
+        await pending;
+      });
+      expect(result.current.status).toBe('signedIn');
+    });
+
+    it('should sign out', async () => {
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await result.current.signIn();
+      });
+      await act(async () => {
+        await result.current.signOut();
+      });
+
+      expect(result.current.user).toBeNull();
+      expect(result.current.status).toBe('signedOut');
+    });
+
+    it('should capture errors instead of throwing', async () => {
+      mockGoogleSignIn.setError(mockErrors.signInFailed);
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      let signInResult;
+      await act(async () => {
+        signInResult = await result.current.signIn();
+      });
+
+      expect(signInResult).toBeNull();
+      expect(result.current.status).toBe('signedOut');
+      expect(result.current.error?.code).toBe(GoogleSignInErrorCode.UNKNOWN);
+      expect(result.current.error?.nativeCode).toBe('SIGN_IN_FAILED');
+    });
+
+    it('should not treat cancellation as an error', async () => {
+      mockGoogleSignIn.setError(mockErrors.userCancelled);
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await result.current.signIn();
+      });
+
+      expect(result.current.error).toBeNull();
+    });
+
+    it('should clear the previous error on the next call', async () => {
+      mockGoogleSignIn.setError(mockErrors.signInFailed);
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await result.current.signIn();
+      });
+      mockGoogleSignIn.clearError();
+      await act(async () => {
+        await result.current.signIn();
+      });
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.status).toBe('signedIn');
+    });
+
+    it('should return tokens for a signed-in user', async () => {
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await result.current.signIn();
+      });
+      let tokens;
+      await act(async () => {
+        tokens = await result.current.getTokens();
+      });
+
+      expect(tokens).toBeGoogleSignInTokens();
+    });
+
+    it('should share state between components', async () => {
+      const first = renderHook(() => useGoogleSignIn());
+      const second = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await first.result.current.signIn();
+      });
+
+      expect(second.result.current.status).toBe('signedIn');
+      expect(second.result.current.user).toEqual(first.result.current.user);
+    });
+
+    it('should follow calls made directly on GoogleSignInModule', async () => {
+      const { result } = renderHook(() => useGoogleSignIn());
+
+      await act(async () => {
+        await GoogleSignInModule.signIn();
+      });
+
+      expect(result.current.status).toBe('signedIn');
+    });
+
+    it('should keep stable action references across renders', async () => {
+      const { result, rerender } = renderHook(() => useGoogleSignIn());
+      const { signIn, signOut, getTokens } = result.current;
+
+      rerender({});
+
+      expect(result.current.signIn).toBe(signIn);
+      expect(result.current.signOut).toBe(signOut);
+      expect(result.current.getTokens).toBe(getTokens);
+    });
+
+    it('should not update after unmounting', async () => {
+      const consoleError = jest.spyOn(console, 'error');
+      mockGoogleSignIn.setSignInDelay(50);
+      const { result, unmount } = renderHook(() => useGoogleSignIn());
+
+      let pending: Promise<unknown>;
+      act(() => {
+        pending = result.current.signIn();
+      });
+      unmount();
+      await pending!;
+
+      expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+      expect(consoleError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useGoogleUser', () => {
+    it('should return the signed-in user', async () => {
+      mockGoogleSignIn.setState({ currentUser: mockUsers.complete });
+      const { result } = renderHook(() => useGoogleUser());
+
+      expect(result.current).toBeNull();
+      await act(async () => {
+        await GoogleSignInModule.signIn();
+      });
+
+      expect(result.current).toBeGoogleSignInUser();
+      expect(result.current).toEqual(mockUsers.complete);
+    });
+
+    it('should not re-render while a request is loading', async () => {
+      mockGoogleSignIn.setSignInDelay(50);
+      let renders = 0;
+      renderHook(() => {
+        renders++;
+        return useGoogleUser();
+      });
+      const signInHook = renderHook(() => useGoogleSignIn());
+
+      act(() => {
+        signInHook.result.current.getTokens();
+      });
+      await waitFor(() =>
+        expect(signInHook.result.current.status).not.toBe('loading')
+      );
+
+      expect(renders).toBe(1);
+    });
+  });
+});
@@ -9,10 +9,16 @@ jest.mock(
   () => require('./__mocks__/NativeGoogleSigninModern').default
 );
 
-import { GoogleSignInModule } from '../index';
+import {
+  GoogleSignInModule,
+  isCancelledResponse,
+  isNoSavedCredentialResponse,
+  isSuccessResponse,
+} from '../index';
 import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
 import {
   createMockConfig,
+  createMockIdToken,
   createMockSignInResult,
   mockErrors,
   mockUsers,
@@ -59,184 +65,1115 @@ describe('GoogleSignInModule', () => {
     });
   });
 
-  describe('Configuration', () => {
-    it('should configure successfully with valid webClientId', async () => {
-      const config = createMockConfig();
+  describe('Configuration', () => {
+    it('should configure successfully with valid webClientId', async () => {
+      const config = createMockConfig();
+
+      await expect(
+        GoogleSignInModule.configure(config)
+      ).resolves.toBeUndefined();
+
+      expectMockCallCounts({ configure: 1 });
+      expectMockCalledWith(
+        'configure',
+        expect.objectContaining({ webClientId: config.webClientId })
+      );
+    });
+
+    it('should default to openid email profile scopes', async () => {
+      const config = createMockConfig();
+
+      await GoogleSignInModule.configure(config);
+
+      expectMockCalledWith('configure', {
+        webClientId: config.webClientId,
+        iosClientId: null,
+        scopes: ['openid', 'email', 'profile'],
+        offlineAccess: false,
+        hostedDomain: null,
+      });
+    });
+
+    it('should pass custom scopes and offline access to native module', async () => {
+      const config = createMockConfig({
+        scopes: ['openid', 'email', 'https://www.googleapis.com/auth/drive'],
+        offlineAccess: true,
+      });
+
+      await GoogleSignInModule.configure(config);
+
+      expectMockCalledWith('configure', {
+        webClientId: config.webClientId,
+        iosClientId: null,
+        scopes: ['openid', 'email', 'https://www.googleapis.com/auth/drive'],
+        offlineAccess: true,
+        hostedDomain: null,
+      });
+      expect(mockGoogleSignIn.getState().scopes).toEqual(config.scopes);
+      expect(mockGoogleSignIn.getState().offlineAccess).toBe(true);
+    });
+
+    it('should throw error for invalid configuration', async () => {
+      const invalidConfig = { webClientId: '' };
+
+      await expectToThrow(
+        () => GoogleSignInModule.configure(invalidConfig),
+        'webClientId must be a non-empty client ID, got ""'
+      );
+    });
+
+    it('should handle native module configuration errors', async () => {
+      const config = createMockConfig();
+      const error = new Error('Native configuration failed');
+      await setupErrorScenario(error);
+
+      await expectToThrow(() => GoogleSignInModule.configure(config), error);
+    });
+  });
+
+  describe('Play Services Availability', () => {
+    it('should check Play Services availability successfully', async () => {
+      mockGoogleSignIn.setState({ isPlayServicesAvailable: true });
+
+      const result = await GoogleSignInModule.isPlayServicesAvailable();
+
+      expect(result).toBe(true);
+      expectMockCallCounts({ isPlayServicesAvailable: 1 });
+    });
+
+    it('should return false when Play Services are not available', async () => {
+      mockGoogleSignIn.setState({ isPlayServicesAvailable: false });
+
+      const result = await GoogleSignInModule.isPlayServicesAvailable();
+
+      expect(result).toBe(false);
+    });
+
+    it('should handle Play Services check errors', async () => {
+      const error = new Error('Play Services check failed');
+      await setupErrorScenario(error);
+
+      await expectToThrow(
+        () => GoogleSignInModule.isPlayServicesAvailable(),
+        error
+      );
+    });
+  });
+
+  describe('Sign In', () => {
+    it('should sign in successfully when configured', async () => {
+      await setupConfiguredState();
+      const expectedResult = createMockSignInResult();
+      mockGoogleSignIn.setSignedIn(expectedResult.user);
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(result).toBeGoogleSignInResult();
+      expect(result.user).toBeGoogleSignInUser();
+      expect(result.idToken).toBeDefined();
+      expect(typeof result.idToken).toBe('string');
+      expectMockCallCounts({ signIn: 1 });
+    });
+
+    it('should handle users with null name and photo', async () => {
+      await setupConfiguredState();
+      const userWithNulls = mockUsers.minimal;
+      mockGoogleSignIn.setSignedIn(userWithNulls);
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(result.user.name).toBeNull();
+      expect(result.user.photo).toBeNull();
+      expect(result.user.id).toBe(userWithNulls.id);
+      expect(result.user.email).toBe(userWithNulls.email);
+    });
+
+    it('should return null serverAuthCode without offline access', async () => {
+      await setupConfiguredState();
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(result.serverAuthCode).toBeNull();
+    });
+
+    it('should return serverAuthCode when offline access is requested', async () => {
+      await GoogleSignInModule.configure(
+        createMockConfig({ offlineAccess: true })
+      );
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(typeof result.serverAuthCode).toBe('string');
+      expect(result.serverAuthCode).toMatch(/^mock-server-auth-code-/);
+    });
+
+    it('should pass the nonce to native and echo it back', async () => {
+      await setupConfiguredState();
+
+      const result = await GoogleSignInModule.signIn({ nonce: 'test-nonce' });
+
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: 'test-nonce',
+        accountFilter: 'authorizedThenAll',
+        presentation: null,
+        loginHint: null,
+        autoSelect: null,
+        preferImmediatelyAvailableCredentials: null,
+      });
+      expect(result.nonce).toBe('test-nonce');
+    });
+
+    it('should decode the ID token claims', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setState({ currentUser: mockUsers.complete });
+
+      const result = await GoogleSignInModule.signIn({ nonce: 'claims-nonce' });
+
+      expect(result.claims).toMatchObject({
+        sub: mockUsers.complete.id,
+        email: mockUsers.complete.email,
+        nonce: 'claims-nonce',
+      });
+      expect(result.claims.aud).toBe(
+        mockGoogleSignIn.mocks.configure.mock.calls[0]![0].webClientId
+      );
+    });
+
+    it('should reject a malformed ID token from native', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.mocks.signIn.mockResolvedValueOnce({
+        idToken: 'not-a-jwt',
+        user: mockUsers.complete,
+      });
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+      expectErrorCode(error, 'INVALID_ID_TOKEN');
+    });
+
+    it('should return null nonce when none is provided', async () => {
+      await setupConfiguredState();
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: null,
+        accountFilter: 'authorizedThenAll',
+        presentation: null,
+        loginHint: null,
+        autoSelect: null,
+        preferImmediatelyAvailableCredentials: null,
+      });
+      expect(result.nonce).toBeNull();
+    });
+
+    it('should pass the button presentation to native', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setNoGoogleAccounts();
+
+      const result = await GoogleSignInModule.signIn({
+        presentation: 'button',
+      });
+
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: null,
+        accountFilter: 'authorizedThenAll',
+        presentation: 'button',
+        loginHint: null,
+        autoSelect: null,
+        preferImmediatelyAvailableCredentials: null,
+      });
+      expect(result).toBeGoogleSignInResult();
+    });
+
+    it('should reject an unknown presentation', async () => {
+      await setupConfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn({ presentation: 'popup' as any }),
+        "presentation must be 'bottomSheet' or 'button', got 'popup'"
+      );
+      expect(mockGoogleSignIn.mocks.signIn).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty nonce', async () => {
+      await setupConfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn({ nonce: '' }),
+        'nonce cannot be an empty string'
+      );
+
+      expectMockCallCounts({ signIn: 0 });
+    });
+
+    it('should pass the account selection options to native', async () => {
+      await setupConfiguredState();
+
+      await GoogleSignInModule.signIn({
+        loginHint: ' jane@example.com ',
+        accountFilter: 'all',
+        autoSelect: true,
+        preferImmediatelyAvailableCredentials: true,
+      });
+
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: null,
+        accountFilter: 'all',
+        presentation: null,
+        loginHint: 'jane@example.com',
+        autoSelect: true,
+        preferImmediatelyAvailableCredentials: true,
+      });
+    });
+
+    it('should let accountFilter limit signIn to authorized accounts', async () => {
+      await setupConfiguredState();
+
+      const error = await GoogleSignInModule.signIn({
+        accountFilter: 'authorizedOnly',
+      }).catch((e: unknown) => e);
+
+      expectErrorCode(error, 'NO_SAVED_CREDENTIAL');
+    });
+
+    it('should reject an unknown account filter', async () => {
+      await setupConfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn({ accountFilter: 'any' as any }),
+        "accountFilter must be 'authorizedOnly', 'all' or 'authorizedThenAll', got 'any'"
+      );
+      expectMockCallCounts({ signIn: 0 });
+    });
+
+    it('should reject an empty login hint', async () => {
+      await setupConfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn({ loginHint: '  ' }),
+        'loginHint cannot be empty'
+      );
+      expectMockCallCounts({ signIn: 0 });
+    });
+
+    it('should pass the login hint to the explicit flow', async () => {
+      await setupConfiguredState();
+
+      await GoogleSignInModule.v2.presentExplicitSignIn({
+        loginHint: 'jane@example.com',
+      });
+
+      expect(mockGoogleSignIn.mocks.presentExplicitSignIn).toHaveBeenCalledWith(
+        expect.objectContaining({ loginHint: 'jane@example.com' })
+      );
+    });
+
+    it('should throw error when not configured', async () => {
+      setupUnconfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn(),
+        'Google Sign-In not configured. Call configure() first.'
+      );
+
+      expectMockCallCounts({ signIn: 0 });
+    });
+
+    it('should handle Play Services unavailable error', async () => {
+      await setupPlayServicesUnavailable();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn(),
+        'Google Play Services not available'
+      );
+    });
+
+    it('should handle sign in cancellation', async () => {
+      await setupConfiguredState();
+      await setupErrorScenario(mockErrors.signInCanceled);
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn(),
+        mockErrors.signInCanceled
+      );
+    });
+
+    it('should handle generic sign in failures', async () => {
+      await setupConfiguredState();
+      await setupErrorScenario(mockErrors.signInFailed);
+
+      await expectToThrow(
+        () => GoogleSignInModule.signIn(),
+        mockErrors.signInFailed
+      );
+    });
+  });
+
+  describe('Silent Sign In', () => {
+    it('should sign in silently when user is already signed in', async () => {
+      const mockResult = await setupSignedInUser();
+
+      const result = await GoogleSignInModule.signInSilently();
+
+      expect(result).toBeGoogleSignInResult();
+      expect(result.user.id).toBe(mockResult.user.id);
+      expectMockCallCounts({ signInSilently: 1 });
+    });
+
+    it('should throw error when not configured', async () => {
+      setupUnconfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signInSilently(),
+        'Google Sign-In not configured. Call configure() first.'
+      );
+    });
+
+    it('should throw error when no user is signed in', async () => {
+      await setupConfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.signInSilently(),
+        'No signed in user'
+      );
+    });
+
+    it('should handle users with null name and photo in silent sign in', async () => {
+      await setupConfiguredState();
+      const userWithNulls = mockUsers.minimal;
+      mockGoogleSignIn.setSignedIn(userWithNulls);
+
+      const result = await GoogleSignInModule.signInSilently();
+
+      expect(result.user.name).toBeNull();
+      expect(result.user.photo).toBeNull();
+      expect(result.user.id).toBe(userWithNulls.id);
+      expect(result.user.email).toBe(userWithNulls.email);
+      expectMockCallCounts({ signInSilently: 1 });
+    });
+
+    it('should normalize missing serverAuthCode to null in silent sign in', async () => {
+      await setupSignedInUser();
+
+      const result = await GoogleSignInModule.signInSilently();
+
+      expect(result.serverAuthCode).toBeNull();
+    });
+
+    it('should echo the nonce in silent sign in', async () => {
+      await setupSignedInUser();
+
+      const result = await GoogleSignInModule.signInSilently({
+        nonce: 'silent-nonce',
+      });
+
+      expect(result.nonce).toBe('silent-nonce');
+    });
+
+    it('should handle silent sign in errors', async () => {
+      await setupConfiguredState();
+      await setupErrorScenario(mockErrors.noSignedInUser);
+
+      await expectToThrow(
+        () => GoogleSignInModule.signInSilently(),
+        mockErrors.noSignedInUser
+      );
+    });
+  });
+
+  describe('Token validation', () => {
+    const configureWithValidation = async () => {
+      mockGoogleSignIn.reset();
+      await GoogleSignInModule.configure({
+        webClientId: 'app.apps.googleusercontent.com',
+        validateTokens: true,
+      });
+    };
+
+    it('should accept valid tokens', async () => {
+      await configureWithValidation();
+
+      const result = await GoogleSignInModule.signIn({ nonce: 'n' });
+
+      expect(result.claims.aud).toBe('app.apps.googleusercontent.com');
+    });
+
+    it('should reject an expired token', async () => {
+      await configureWithValidation();
+      mockGoogleSignIn.mocks.signIn.mockResolvedValueOnce({
+        idToken: createMockIdToken({
+          aud: 'app.apps.googleusercontent.com',
+          exp: Math.floor(Date.now() / 1000) - 3600,
+        }),
+        user: mockUsers.complete,
+      });
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expectErrorCode(error, 'ID_TOKEN_VALIDATION_FAILED');
+      expect(error.message).toContain('EXPIRED');
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should reject a token for another client ID', async () => {
+      await configureWithValidation();
+      mockGoogleSignIn.mocks.signIn.mockResolvedValueOnce({
+        idToken: createMockIdToken({ aud: 'other.apps.googleusercontent.com' }),
+        user: mockUsers.complete,
+      });
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expectErrorCode(error, 'ID_TOKEN_VALIDATION_FAILED');
+      expect(error.message).toContain('INVALID_AUDIENCE');
+    });
+
+    it('should reject a token without the requested nonce', async () => {
+      await configureWithValidation();
+      mockGoogleSignIn.mocks.signIn.mockResolvedValueOnce({
+        idToken: createMockIdToken({ aud: 'app.apps.googleusercontent.com' }),
+        nonce: 'expected-nonce',
+        user: mockUsers.complete,
+      });
+
+      const error = await GoogleSignInModule.signIn({
+        nonce: 'expected-nonce',
+      }).catch((e) => e);
+
+      expectErrorCode(error, 'ID_TOKEN_VALIDATION_FAILED');
+      expect(error.message).toContain('NONCE_MISMATCH');
+    });
+
+    it('should check the requested nonce when the native result leaves it out', async () => {
+      await configureWithValidation();
+      // A restored session on iOS: an older token, and no nonce in the result
+      mockGoogleSignIn.mocks.signInSilently.mockResolvedValueOnce({
+        idToken: createMockIdToken({ aud: 'app.apps.googleusercontent.com' }),
+        user: mockUsers.complete,
+      });
+
+      const error = await GoogleSignInModule.signInSilently({
+        nonce: 'expected-nonce',
+      }).catch((e) => e);
+
+      expectErrorCode(error, 'ID_TOKEN_VALIDATION_FAILED');
+      expect(error.message).toContain('Token has no nonce claim');
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should accept a matching nonce claim when the native result leaves it out', async () => {
+      await configureWithValidation();
+      mockGoogleSignIn.mocks.signInSilently.mockResolvedValueOnce({
+        idToken: createMockIdToken({
+          aud: 'app.apps.googleusercontent.com',
+          nonce: 'expected-nonce',
+        }),
+        user: mockUsers.complete,
+      });
+
+      await expect(
+        GoogleSignInModule.signInSilently({ nonce: 'expected-nonce' })
+      ).resolves.toBeGoogleSignInResult();
+    });
+
+    it('should validate tokens from getTokens', async () => {
+      await configureWithValidation();
+      mockGoogleSignIn.setSignedIn();
+      mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce({
+        idToken: createMockIdToken({ exp: 0 }),
+        accessToken: 'access-token',
+      });
+
+      const error = await GoogleSignInModule.getTokens().catch((e) => e);
+
+      expectErrorCode(error, 'ID_TOKEN_VALIDATION_FAILED');
+    });
+
+    it('should not validate tokens unless enabled', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.mocks.signIn.mockResolvedValueOnce({
+        idToken: createMockIdToken({ exp: 0 }),
+        user: mockUsers.complete,
+      });
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+    });
+  });
+
+  describe('Hosted domain', () => {
+    const configureHostedDomain = (hostedDomain = 'example.com') =>
+      GoogleSignInModule.configure({ ...createMockConfig(), hostedDomain });
+
+    it('should pass the hosted domain to the native module as a hint', async () => {
+      await configureHostedDomain();
+
+      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledWith(
+        expect.objectContaining({ hostedDomain: 'example.com' })
+      );
+    });
+
+    it('should accept accounts from the hosted domain, ignoring case', async () => {
+      await configureHostedDomain('Example.COM');
+      mockGoogleSignIn.setAccountHostedDomain('example.com');
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(result.claims.hd).toBe('example.com');
+      expect(GoogleSignInModule.getCurrentUser()).toBe(result.user);
+    });
+
+    it('should reject accounts outside any Workspace domain', async () => {
+      await configureHostedDomain();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expectErrorCode(error, 'HOSTED_DOMAIN_MISMATCH');
+      expect(error.message).toBe(
+        "test@example.com is not a Google Workspace account; only accounts from 'example.com' are allowed"
+      );
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      expect(mockGoogleSignIn.mocks.signOut).toHaveBeenCalledTimes(1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should sign out the current user when another domain signs in', async () => {
+      await configureHostedDomain();
+      mockGoogleSignIn.setAccountHostedDomain('example.com');
+      await GoogleSignInModule.signIn();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+      mockGoogleSignIn.setAccountHostedDomain('other.com');
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expectErrorCode(error, 'HOSTED_DOMAIN_MISMATCH');
+      expect(error.message).toContain("belongs to 'other.com'");
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      expect(listener).toHaveBeenCalledWith(null);
+      expect(mockGoogleSignIn.getState().persistedSession).toBeNull();
+    });
+
+    it('should enforce the domain on refreshed tokens', async () => {
+      await configureHostedDomain();
+      mockGoogleSignIn.setAccountHostedDomain('example.com');
+      await GoogleSignInModule.signIn();
+      mockGoogleSignIn.setAccountHostedDomain('other.com');
+
+      const error = await GoogleSignInModule.getTokens().catch((e) => e);
+
+      expectErrorCode(error, 'HOSTED_DOMAIN_MISMATCH');
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should still report a mismatch when the native sign-out fails', async () => {
+      await configureHostedDomain();
+      mockGoogleSignIn.mocks.signOut.mockRejectedValueOnce(
+        new Error('Sign out failed')
+      );
+
+      const error = await GoogleSignInModule.signIn().catch((e) => e);
+
+      expectErrorCode(error, 'HOSTED_DOMAIN_MISMATCH');
+    });
+
+    it('should not check domains without a hosted domain', async () => {
+      await setupConfiguredState();
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+    });
+
+    it.each(['', '  '])(
+      'should reject the blank hosted domain %j',
+      async (hostedDomain) => {
+        const error = await configureHostedDomain(hostedDomain).catch((e) => e);
+
+        expectErrorCode(error, 'INVALID_ARGUMENT');
+        expect(mockGoogleSignIn.mocks.configure).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe('Token cache', () => {
+    const tokensExpiringIn = (seconds: number) => ({
+      idToken: createMockIdToken({
+        exp: Math.floor(Date.now() / 1000) + seconds,
+      }),
+      accessToken: `access-token-${seconds}`,
+    });
+
+    it('should return cached tokens while they are valid', async () => {
+      await setupSignedInUser();
+
+      const first = await GoogleSignInModule.getTokens();
+      const second = await GoogleSignInModule.getTokens();
+
+      expect(second).toBe(first);
+      expectMockCallCounts({ getTokens: 1 });
+    });
+
+    it('should refresh tokens inside the expiry margin', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce(
+        tokensExpiringIn(200)
+      );
+
+      await GoogleSignInModule.getTokens();
+      const tokens = await GoogleSignInModule.getTokens();
+
+      expect(tokens.accessToken).not.toBe('access-token-200');
+      expectMockCallCounts({ getTokens: 2 });
+    });
+
+    it('should honor a custom expiry margin', async () => {
+      mockGoogleSignIn.setSignedIn();
+      await GoogleSignInModule.configure(
+        createMockConfig({ tokenExpiryMarginSeconds: 60 })
+      );
+      mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce(
+        tokensExpiringIn(200)
+      );
+
+      await GoogleSignInModule.getTokens();
+      const tokens = await GoogleSignInModule.getTokens();
+
+      expect(tokens.accessToken).toBe('access-token-200');
+      expectMockCallCounts({ getTokens: 1 });
+    });
+
+    it('should reject a negative expiry margin', async () => {
+      await expectToThrow(
+        () =>
+          GoogleSignInModule.configure(
+            createMockConfig({ tokenExpiryMarginSeconds: -1 })
+          ),
+        'tokenExpiryMarginSeconds must be a non-negative number, got -1'
+      );
+    });
+
+    it('should bypass the cache with forceRefresh', async () => {
+      await setupSignedInUser();
+
+      const first = await GoogleSignInModule.getTokens();
+      const refreshed = await GoogleSignInModule.getTokens({
+        forceRefresh: true,
+      });
+
+      expect(refreshed).not.toBe(first);
+      expect(await GoogleSignInModule.getTokens()).toBe(refreshed);
+      expectMockCallCounts({ getTokens: 2 });
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+      await setupSignedInUser();
+
+      const results = await Promise.all([
+        GoogleSignInModule.getTokens(),
+        GoogleSignInModule.getTokens(),
+        GoogleSignInModule.getTokens({ forceRefresh: true }),
+      ]);
+
+      expect(results[1]).toBe(results[0]);
+      expect(results[2]).toBe(results[0]);
+      expectMockCallCounts({ getTokens: 1 });
+    });
+
+    it('should share a failed refresh and retry on the next call', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+        Object.assign(new Error('Refresh failed'), {
+          code: 'TOKEN_REFRESH_ERROR',
+        })
+      );
+
+      const errors = await Promise.all([
+        GoogleSignInModule.getTokens().catch((e) => e),
+        GoogleSignInModule.getTokens().catch((e) => e),
+      ]);
+
+      expectErrorCode(errors[0], 'TOKEN_REFRESH_ERROR');
+      expect(errors[1]).toBe(errors[0]);
+      await expect(
+        GoogleSignInModule.getTokens()
+      ).resolves.toBeGoogleSignInTokens();
+      expectMockCallCounts({ getTokens: 2 });
+    });
+
+    it('should clear the cache on signOut', async () => {
+      await setupSignedInUser();
+      await GoogleSignInModule.getTokens();
+
+      await GoogleSignInModule.signOut();
+
+      await expectToThrow(
+        () => GoogleSignInModule.getTokens(),
+        'No signed in user'
+      );
+    });
+
+    it('should not cache a refresh that finishes after signOut', async () => {
+      await setupSignedInUser();
+      const pending = GoogleSignInModule.getTokens();
+
+      await GoogleSignInModule.signOut();
+      await pending;
+
+      await expectToThrow(
+        () => GoogleSignInModule.getTokens(),
+        'No signed in user'
+      );
+    });
+
+    it('should clear the cache when another user signs in', async () => {
+      await setupSignedInUser();
+      const first = await GoogleSignInModule.getTokens();
+
+      await GoogleSignInModule.signIn();
+      const second = await GoogleSignInModule.getTokens();
+
+      expect(second).not.toBe(first);
+      expectMockCallCounts({ getTokens: 2 });
+    });
+
+    it('should not cache tokens without a readable expiry', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce({
+        idToken: 'not-a-jwt',
+        accessToken: 'access-token',
+      });
+
+      await GoogleSignInModule.getTokens();
+      await GoogleSignInModule.getTokens();
+
+      expectMockCallCounts({ getTokens: 2 });
+    });
+  });
+
+  describe('Auth state listeners', () => {
+    const sessionLost = (code: string) =>
+      Object.assign(new Error('Session gone'), { code });
+
+    it('should fire with the user after each successful sign-in', async () => {
+      await setupConfiguredState();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+
+      const first = await GoogleSignInModule.signIn();
+      mockGoogleSignIn.setSignedIn(first.user);
+      const second = await GoogleSignInModule.signInSilently();
+
+      expect(listener.mock.calls).toEqual([[first.user], [second.user]]);
+    });
+
+    it('should fire for v2 sign-ins', async () => {
+      await setupConfiguredState();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+
+      const response = await GoogleSignInModule.v2.createAccount();
+
+      expect(isSuccessResponse(response)).toBe(true);
+      expect(listener).toHaveBeenCalledWith(
+        isSuccessResponse(response) ? response.data.user : undefined
+      );
+    });
+
+    it('should fire with null after signOut', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+
+      await GoogleSignInModule.signOut();
+
+      expect(listener).toHaveBeenCalledWith(null);
+    });
+
+    it('should not fire for failed sign-ins', async () => {
+      await setupConfiguredState();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+      mockGoogleSignIn.setError(mockErrors.signInCanceled);
+
+      await expectToThrow(() => GoogleSignInModule.signIn(), /canceled/);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it.each(['NO_USER', 'SIGN_IN_REQUIRED'])(
+      'should sign out when getTokens reports %s',
+      async (code) => {
+        await setupConfiguredState();
+        await GoogleSignInModule.signIn();
+        const listener = jest.fn();
+        GoogleSignInModule.onAuthStateChanged(listener);
+        mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+          sessionLost(code)
+        );
+
+        await GoogleSignInModule.getTokens().catch(() => {});
+
+        expect(listener).toHaveBeenCalledWith(null);
+        expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      }
+    );
+
+    it('should sign out when a silent sign-in finds the session revoked', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+      mockGoogleSignIn.mocks.signInSilently.mockRejectedValueOnce(
+        sessionLost('SIGN_IN_REQUIRED')
+      );
+
+      await GoogleSignInModule.signInSilently().catch(() => {});
+
+      expect(listener).toHaveBeenCalledWith(null);
+    });
+
+    it('should keep the user after unrelated token errors', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+      mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+        sessionLost('TOKEN_REFRESH_ERROR')
+      );
+
+      await GoogleSignInModule.getTokens().catch(() => {});
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+    });
+
+    it('should not report a revocation when nobody is signed in', async () => {
+      await setupConfiguredState();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
 
-      await expect(
-        GoogleSignInModule.configure(config)
-      ).resolves.toBeUndefined();
+      await GoogleSignInModule.getTokens().catch(() => {});
 
-      expectMockCallCounts({ configure: 1 });
-      expectMockCalledWith('configure', config.webClientId);
+      expect(listener).not.toHaveBeenCalled();
     });
 
-    it('should throw error for invalid configuration', async () => {
-      const invalidConfig = { webClientId: '' };
+    it('should isolate listener errors', async () => {
+      await setupConfiguredState();
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const healthy = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(() => {
+        throw new Error('listener bug');
+      });
+      GoogleSignInModule.onAuthStateChanged(healthy);
 
-      await expectToThrow(
-        () => GoogleSignInModule.configure(invalidConfig),
-        'Invalid web client ID'
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+
+      expect(healthy).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(
+        "GoogleSignIn: 'authStateChanged' listener threw",
+        expect.any(Error)
       );
     });
 
-    it('should handle native module configuration errors', async () => {
-      const config = createMockConfig();
-      const error = new Error('Native configuration failed');
-      await setupErrorScenario(error);
+    it('should stop calling unsubscribed listeners', async () => {
+      await setupConfiguredState();
+      const listener = jest.fn();
+      const unsubscribe = GoogleSignInModule.onAuthStateChanged(listener);
 
-      await expectToThrow(() => GoogleSignInModule.configure(config), error);
+      unsubscribe();
+      await GoogleSignInModule.signIn();
+
+      expect(listener).not.toHaveBeenCalled();
     });
   });
 
-  describe('Play Services Availability', () => {
-    it('should check Play Services availability successfully', async () => {
-      mockGoogleSignIn.setState({ isPlayServicesAvailable: true });
+  describe('Response API (v2)', () => {
+    it('should resolve a success response for a returning user', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setState({ hasAuthorizedAccount: true });
 
-      const result = await GoogleSignInModule.isPlayServicesAvailable();
+      const response = await GoogleSignInModule.v2.signIn({ nonce: 'n' });
 
-      expect(result).toBe(true);
-      expectMockCallCounts({ isPlayServicesAvailable: 1 });
+      expect(isSuccessResponse(response)).toBe(true);
+      if (isSuccessResponse(response)) {
+        expect(response.data).toBeGoogleSignInResult();
+        expect(response.data.nonce).toBe('n');
+      }
     });
 
-    it('should return false when Play Services are not available', async () => {
-      mockGoogleSignIn.setState({ isPlayServicesAvailable: false });
+    it('should only offer authorized accounts in signIn', async () => {
+      await setupConfiguredState();
 
-      const result = await GoogleSignInModule.isPlayServicesAvailable();
+      const response = await GoogleSignInModule.v2.signIn();
 
-      expect(result).toBe(false);
+      expect(response).toEqual({ type: 'noSavedCredential' });
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: null,
+        accountFilter: 'authorizedOnly',
+        presentation: null,
+        loginHint: null,
+        autoSelect: null,
+        preferImmediatelyAvailableCredentials: null,
+      });
     });
 
-    it('should handle Play Services check errors', async () => {
-      const error = new Error('Play Services check failed');
-      await setupErrorScenario(error);
+    it('should offer all accounts in createAccount', async () => {
+      await setupConfiguredState();
 
-      await expectToThrow(
-        () => GoogleSignInModule.isPlayServicesAvailable(),
-        error
-      );
+      const response = await GoogleSignInModule.v2.createAccount();
+
+      expect(isSuccessResponse(response)).toBe(true);
+      expect(mockGoogleSignIn.mocks.signIn).toHaveBeenCalledWith({
+        nonce: null,
+        accountFilter: 'all',
+        presentation: null,
+        loginHint: null,
+        autoSelect: null,
+        preferImmediatelyAvailableCredentials: null,
+      });
     });
-  });
 
-  describe('Sign In', () => {
-    it('should sign in successfully when configured', async () => {
+    it('should resolve noSavedCredential from createAccount without accounts', async () => {
       await setupConfiguredState();
-      const expectedResult = createMockSignInResult();
-      mockGoogleSignIn.setSignedIn(expectedResult.user);
+      mockGoogleSignIn.setNoGoogleAccounts();
 
-      const result = await GoogleSignInModule.signIn();
+      const response = await GoogleSignInModule.v2.createAccount();
 
-      expect(result).toBeGoogleSignInResult();
-      expect(result.user).toBeGoogleSignInUser();
-      expect(result.idToken).toBeDefined();
-      expect(typeof result.idToken).toBe('string');
-      expectMockCallCounts({ signIn: 1 });
+      expect(response).toEqual({ type: 'noSavedCredential' });
     });
 
-    it('should handle users with null name and photo', async () => {
+    it('should open the explicit sign-in flow', async () => {
       await setupConfiguredState();
-      const userWithNulls = mockUsers.minimal;
-      mockGoogleSignIn.setSignedIn(userWithNulls);
+      mockGoogleSignIn.setNoGoogleAccounts();
 
-      const result = await GoogleSignInModule.signIn();
+      const response = await GoogleSignInModule.v2.presentExplicitSignIn({
+        nonce: 'explicit-nonce',
+      });
 
-      expect(result.user.name).toBeNull();
-      expect(result.user.photo).toBeNull();
-      expect(result.user.id).toBe(userWithNulls.id);
-      expect(result.user.email).toBe(userWithNulls.email);
+      expect(isSuccessResponse(response)).toBe(true);
+      expect(mockGoogleSignIn.mocks.presentExplicitSignIn).toHaveBeenCalledWith(
+        {
+          nonce: 'explicit-nonce',
+          accountFilter: null,
+          presentation: null,
+          loginHint: null,
+          autoSelect: null,
+          preferImmediatelyAvailableCredentials: null,
+        }
+      );
     });
 
-    it('should throw error when not configured', async () => {
-      setupUnconfiguredState();
+    describe('signInWithFallback', () => {
+      it('should stop at signIn for a returning user', async () => {
+        await setupConfiguredState();
+        mockGoogleSignIn.setState({ hasAuthorizedAccount: true });
 
-      await expectToThrow(
-        () => GoogleSignInModule.signIn(),
-        'Google Sign-In not configured. Call configure() first.'
-      );
+        const response = await GoogleSignInModule.v2.signInWithFallback();
 
-      expectMockCallCounts({ signIn: 0 });
-    });
+        expect(isSuccessResponse(response)).toBe(true);
+        expectMockCallCounts({ signIn: 1, presentExplicitSignIn: 0 });
+      });
 
-    it('should handle Play Services unavailable error', async () => {
-      await setupPlayServicesUnavailable();
+      it('should fall back to createAccount for a new user', async () => {
+        await setupConfiguredState();
 
-      await expectToThrow(
-        () => GoogleSignInModule.signIn(),
-        'Google Play Services not available'
-      );
+        const response = await GoogleSignInModule.v2.signInWithFallback();
+
+        expect(isSuccessResponse(response)).toBe(true);
+        expect(mockGoogleSignIn.mocks.signIn).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({ accountFilter: 'all' })
+        );
+        expectMockCallCounts({ signIn: 2, presentExplicitSignIn: 0 });
+      });
+
+      it('should fall back to the explicit flow without accounts', async () => {
+        await setupConfiguredState();
+        mockGoogleSignIn.setNoGoogleAccounts();
+
+        const response = await GoogleSignInModule.v2.signInWithFallback({
+          nonce: 'chain-nonce',
+        });
+
+        expect(isSuccessResponse(response)).toBe(true);
+        if (isSuccessResponse(response)) {
+          expect(response.data.nonce).toBe('chain-nonce');
+        }
+        expectMockCallCounts({ signIn: 2, presentExplicitSignIn: 1 });
+      });
+
+      it('should stop when the user cancels', async () => {
+        await setupErrorScenario(mockErrors.userCancelled);
+
+        const response = await GoogleSignInModule.v2.signInWithFallback();
+
+        expect(response).toEqual({ type: 'cancelled' });
+        expectMockCallCounts({ signIn: 1, presentExplicitSignIn: 0 });
+      });
     });
 
-    it('should handle sign in cancellation', async () => {
-      await setupConfiguredState();
-      await setupErrorScenario(mockErrors.signInCanceled);
+    it('should resolve a cancelled response when the user cancels', async () => {
+      await setupErrorScenario(mockErrors.userCancelled);
 
-      await expectToThrow(
-        () => GoogleSignInModule.signIn(),
-        mockErrors.signInCanceled
-      );
+      const response = await GoogleSignInModule.v2.signIn();
+
+      expect(response).toEqual({ type: 'cancelled' });
+      expect(isCancelledResponse(response)).toBe(true);
     });
 
-    it('should handle generic sign in failures', async () => {
+    it('should resolve noSavedCredential when there is no previous session', async () => {
       await setupConfiguredState();
-      await setupErrorScenario(mockErrors.signInFailed);
 
-      await expectToThrow(
-        () => GoogleSignInModule.signIn(),
-        mockErrors.signInFailed
-      );
+      const response = await GoogleSignInModule.v2.signInSilently();
+
+      expect(response).toEqual({ type: 'noSavedCredential' });
+      expect(isNoSavedCredentialResponse(response)).toBe(true);
     });
-  });
 
-  describe('Silent Sign In', () => {
-    it('should sign in silently when user is already signed in', async () => {
+    it('should resolve a success response on silent sign in', async () => {
       const mockResult = await setupSignedInUser();
 
-      const result = await GoogleSignInModule.signInSilently();
+      const response = await GoogleSignInModule.v2.signInSilently();
 
-      expect(result).toBeGoogleSignInResult();
-      expect(result.user.id).toBe(mockResult.user.id);
-      expectMockCallCounts({ signInSilently: 1 });
+      expect(response.type).toBe('success');
+      if (isSuccessResponse(response)) {
+        expect(response.data.user.id).toBe(mockResult.user.id);
+      }
     });
 
-    it('should throw error when not configured', async () => {
-      setupUnconfiguredState();
+    it('should still throw unexpected failures', async () => {
+      await setupErrorScenario(mockErrors.signInFailed);
 
       await expectToThrow(
-        () => GoogleSignInModule.signInSilently(),
-        'Google Sign-In not configured. Call configure() first.'
+        () => GoogleSignInModule.v2.signIn(),
+        mockErrors.signInFailed
       );
     });
 
-    it('should throw error when no user is signed in', async () => {
-      await setupConfiguredState();
+    it('should throw when not configured', async () => {
+      setupUnconfiguredState();
 
       await expectToThrow(
-        () => GoogleSignInModule.signInSilently(),
-        'No signed in user'
+        () => GoogleSignInModule.v2.signIn(),
+        'Google Sign-In not configured. Call configure() first.'
       );
     });
 
-    it('should handle users with null name and photo in silent sign in', async () => {
-      await setupConfiguredState();
-      const userWithNulls = mockUsers.minimal;
-      mockGoogleSignIn.setSignedIn(userWithNulls);
-
-      const result = await GoogleSignInModule.signInSilently();
-
-      expect(result.user.name).toBeNull();
-      expect(result.user.photo).toBeNull();
-      expect(result.user.id).toBe(userWithNulls.id);
-      expect(result.user.email).toBe(userWithNulls.email);
-      expectMockCallCounts({ signInSilently: 1 });
-    });
-
-    it('should handle silent sign in errors', async () => {
-      await setupConfiguredState();
-      await setupErrorScenario(mockErrors.noSignedInUser);
+    it('should leave the original methods throwing on cancellation', async () => {
+      await setupErrorScenario(mockErrors.signInCanceled);
 
       await expectToThrow(
-        () => GoogleSignInModule.signInSilently(),
-        mockErrors.noSignedInUser
+        () => GoogleSignInModule.signIn(),
+        mockErrors.signInCanceled
       );
     });
   });
@@ -282,6 +1219,70 @@ describe('GoogleSignInModule', () => {
     });
   });
 
+  describe('Incremental Authorization', () => {
+    const driveScope = 'https://www.googleapis.com/auth/drive.readonly';
+
+    it('should grant additional scopes for signed in user', async () => {
+      await setupSignedInUser();
+
+      const result = await GoogleSignInModule.requestAuthorization({
+        scopes: [driveScope],
+      });
+
+      expect(result.grantedScopes).toContain(driveScope);
+      expect(typeof result.accessToken).toBe('string');
+      expect(result.accessToken.length).toBeGreaterThan(0);
+      expect(result.serverAuthCode).toBeNull();
+      expectMockCalledWith('requestAuthorization', {
+        scopes: [driveScope],
+        offlineAccess: false,
+      });
+    });
+
+    it('should return server auth code when offline access is requested', async () => {
+      await setupSignedInUser();
+
+      const result = await GoogleSignInModule.requestAuthorization({
+        scopes: [driveScope],
+        offlineAccess: true,
+      });
+
+      expect(typeof result.serverAuthCode).toBe('string');
+    });
+
+    it('should reject when the user denies consent', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.setAuthorizationDenied();
+
+      try {
+        await GoogleSignInModule.requestAuthorization({ scopes: [driveScope] });
+        fail('Expected authorization to be denied');
+      } catch (error) {
+        expectErrorCode(error, 'AUTHORIZATION_DENIED');
+      }
+    });
+
+    it('should throw error when not configured', async () => {
+      setupUnconfiguredState();
+
+      await expectToThrow(
+        () => GoogleSignInModule.requestAuthorization({ scopes: [driveScope] }),
+        'Google Sign-In not configured. Call configure() first.'
+      );
+      expectMockCallCounts({ requestAuthorization: 0 });
+    });
+
+    it('should throw error when no scopes are requested', async () => {
+      await setupSignedInUser();
+
+      await expectToThrow(
+        () => GoogleSignInModule.requestAuthorization({ scopes: [] }),
+        'requestAuthorization() requires at least one scope'
+      );
+      expectMockCallCounts({ requestAuthorization: 0 });
+    });
+  });
+
   describe('Sign Out', () => {
     it('should sign out successfully when configured', async () => {
       await setupSignedInUser();
@@ -309,6 +1310,140 @@ describe('GoogleSignInModule', () => {
         'Sign out failed'
       );
     });
+
+    it('should keep the configuration for the next sign-in', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+
+      await GoogleSignInModule.signOut();
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+      expectMockCallCounts({ configure: 1, signIn: 2 });
+    });
+
+    it('should report NO_USER rather than NOT_CONFIGURED after signing out', async () => {
+      await setupSignedInUser();
+
+      await GoogleSignInModule.signOut();
+      const error = await GoogleSignInModule.getTokens().catch((e) => e);
+
+      expectErrorCode(error, 'NO_USER');
+    });
+
+    it('should stop treating the module as configured when the native module is not', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setNotConfigured();
+
+      const nativeError = await GoogleSignInModule.signIn().catch((e) => e);
+      const jsError = await GoogleSignInModule.getTokens().catch((e) => e);
+
+      expectErrorCode(nativeError, 'NOT_CONFIGURED');
+      expectErrorCode(jsError, 'NOT_CONFIGURED');
+      expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should work again once reconfigured', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setNotConfigured();
+      await GoogleSignInModule.signIn().catch(() => {});
+
+      await GoogleSignInModule.configure(createMockConfig());
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+    });
+  });
+
+  describe('Revoke Access', () => {
+    const revokeError = (code: string) =>
+      Object.assign(new Error(`Revoke failed: ${code}`), { code });
+
+    it("should revoke the signed-in user's access and end the session", async () => {
+      await setupSignedInUser();
+      const email = GoogleSignInModule.getCurrentUser()?.email;
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+
+      await expect(GoogleSignInModule.revokeAccess()).resolves.toBeUndefined();
+
+      expectMockCalledWith('revokeAccess', email);
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      expect(listener).toHaveBeenCalledWith(null);
+      expect(mockGoogleSignIn.getState().persistedSession).toBeNull();
+    });
+
+    it('should throw error when not configured', async () => {
+      setupUnconfiguredState();
+
+      const error = await GoogleSignInModule.revokeAccess().catch((e) => e);
+
+      expectErrorCode(error, 'NOT_CONFIGURED');
+      expect(mockGoogleSignIn.mocks.revokeAccess).not.toHaveBeenCalled();
+    });
+
+    it('should keep the user signed in when revoking fails', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.revokeAccess.mockRejectedValueOnce(
+        revokeError('REVOKE_ACCESS_ERROR')
+      );
+
+      const error = await GoogleSignInModule.revokeAccess().catch((e) => e);
+
+      expectErrorCode(error, 'REVOKE_ACCESS_ERROR');
+      expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+    });
+
+    it('should end a session the native SDK no longer has', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.revokeAccess.mockRejectedValueOnce(
+        revokeError('NO_USER')
+      );
+
+      const error = await GoogleSignInModule.revokeAccess().catch((e) => e);
+
+      expectErrorCode(error, 'NO_USER');
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should revoke before signing out with signOut({ revoke: true })', async () => {
+      await setupSignedInUser();
+      const email = GoogleSignInModule.getCurrentUser()?.email;
+
+      await GoogleSignInModule.signOut({ revoke: true });
+
+      expectMockCalledWith('revokeAccess', email);
+      expect(
+        mockGoogleSignIn.mocks.revokeAccess.mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        mockGoogleSignIn.mocks.signOut.mock.invocationCallOrder[0]!
+      );
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should not sign out when signOut({ revoke: true }) fails to revoke', async () => {
+      await setupSignedInUser();
+      mockGoogleSignIn.mocks.revokeAccess.mockRejectedValueOnce(
+        revokeError('REVOKE_ACCESS_ERROR')
+      );
+
+      await expect(
+        GoogleSignInModule.signOut({ revoke: true })
+      ).rejects.toMatchObject({ code: 'REVOKE_ACCESS_ERROR' });
+
+      expect(mockGoogleSignIn.mocks.signOut).not.toHaveBeenCalled();
+      expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+    });
+
+    it('should not revoke on a plain signOut()', async () => {
+      await setupSignedInUser();
+
+      await GoogleSignInModule.signOut();
+
+      expect(mockGoogleSignIn.mocks.revokeAccess).not.toHaveBeenCalled();
+    });
   });
 
   describe('Sign In Status', () => {
@@ -318,7 +1453,8 @@ describe('GoogleSignInModule', () => {
       const result = await GoogleSignInModule.isSignedIn();
 
       expect(result).toBe(true);
-      expectMockCallCounts({ isSignedIn: 1 });
+      // Once more when configure() restored the persisted session
+      expectMockCallCounts({ isSignedIn: 2 });
     });
 
     it('should return false when user is not signed in', async () => {
@@ -455,11 +1591,17 @@ describe('GoogleSignInModule', () => {
 
       // Configure with first config
       await GoogleSignInModule.configure(firstConfig);
-      expectMockCalledWith('configure', firstConfig.webClientId);
+      expectMockCalledWith(
+        'configure',
+        expect.objectContaining({ webClientId: firstConfig.webClientId })
+      );
 
       // Reconfigure with second config
       await GoogleSignInModule.configure(secondConfig);
-      expectMockCalledWith('configure', secondConfig.webClientId);
+      expectMockCalledWith(
+        'configure',
+        expect.objectContaining({ webClientId: secondConfig.webClientId })
+      );
 
       expectMockCallCounts({ configure: 2 });
     });
@@ -51,7 +51,10 @@ describe('iOS Native Module Tests', () => {
       await GoogleSignInModule.configure(config);
 
       expectMockCallCounts({ configure: 1 });
-      expectMockCalledWith('configure', config.webClientId);
+      expectMockCalledWith(
+        'configure',
+        expect.objectContaining({ webClientId: config.webClientId })
+      );
       expect(mockGoogleSignIn.getState().isConfigured).toBe(true);
     });
 
@@ -70,7 +73,7 @@ describe('iOS Native Module Tests', () => {
 
       await expectToThrow(
         () => GoogleSignInModule.configure(emptyConfig),
-        'Invalid web client ID'
+        'webClientId must be a non-empty client ID, got ""'
       );
     });
 
@@ -418,7 +421,8 @@ describe('iOS Native Module Tests', () => {
       const isSignedIn = await GoogleSignInModule.isSignedIn();
 
       expect(isSignedIn).toBe(true);
-      expectMockCallCounts({ isSignedIn: 1 });
+      // Once more when configure() restored the persisted session
+      expectMockCallCounts({ isSignedIn: 2 });
     });
 
     it('should handle iOS isSignedIn check without current user', async () => {
@@ -510,7 +514,6 @@ describe('iOS Native Module Tests', () => {
 
       // Test all iOS error codes match expected values
       const errorMappings = [
-        { iosError: 'NOT_CONFIGURED', message: 'Not configured' },
         {
           iosError: 'SIGN_IN_IN_PROGRESS',
           message: 'Sign-in already in progress',
@@ -521,6 +524,8 @@ describe('iOS Native Module Tests', () => {
         { iosError: 'TOKEN_REFRESH_ERROR', message: 'Token refresh error' },
         { iosError: 'SIGN_OUT_ERROR', message: 'Sign-out error' },
         { iosError: 'NO_USER', message: 'No user' },
+        // Last, since it leaves the JS side unconfigured as well
+        { iosError: 'NOT_CONFIGURED', message: 'Not configured' },
       ];
 
       for (const mapping of errorMappings) {
@@ -0,0 +1,279 @@
+/**
+ * Tests for decoding Google ID tokens
+ */
+
+import { GoogleSignInError, GoogleSignInErrorCode } from '../errors';
+import { decodeIdToken, validateIdToken } from '../jwt';
+import { createMockIdToken } from './factories';
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const tokenWithPayload = (payload: string) =>
+  `${encode({ alg: 'RS256' })}.${payload}.signature`;
+
+const baseClaims = {
+  iss: 'https://accounts.google.com',
+  aud: 'client.apps.googleusercontent.com',
+  sub: '110169484474386276334',
+  iat: 1700000000,
+  exp: 1700003600,
+};
+
+const expectInvalidToken = (idToken: string, message: string) => {
+  let thrown: unknown;
+  try {
+    decodeIdToken(idToken);
+  } catch (error) {
+    thrown = error;
+  }
+  expect(thrown).toBeInstanceOf(GoogleSignInError);
+  expect((thrown as GoogleSignInError).code).toBe(
+    GoogleSignInErrorCode.INVALID_ID_TOKEN
+  );
+  expect((thrown as GoogleSignInError).message).toContain(message);
+};
+
+describe('decodeIdToken', () => {
+  it('should decode every documented Google claim', () => {
+    const claims = {
+      ...baseClaims,
+      email: 'jane@example.com',
+      email_verified: true,
+      hd: 'example.com',
+      name: 'Jane Doe',
+      picture: 'https://example.com/jane.jpg',
+      given_name: 'Jane',
+      family_name: 'Doe',
+      nonce: 'abc123',
+      auth_time: 1699999990,
+    };
+
+    expect(decodeIdToken(tokenWithPayload(encode(claims)))).toEqual(claims);
+  });
+
+  it('should keep claims it does not know about', () => {
+    const claims = decodeIdToken(
+      tokenWithPayload(encode({ ...baseClaims, azp: 'android-client' }))
+    );
+
+    expect(claims.azp).toBe('android-client');
+  });
+
+  it.each([0, 1, 2])(
+    'should decode payloads needing %i padding characters',
+    (extra) => {
+      // Vary the payload length so the unpadded segment ends on every boundary
+      const claims = { ...baseClaims, name: 'J' + 'x'.repeat(extra) };
+      const payload = encode(claims);
+
+      expect(decodeIdToken(tokenWithPayload(payload))).toEqual(claims);
+    }
+  );
+
+  it('should accept padded segments', () => {
+    const claims = { ...baseClaims, name: 'Jo' };
+    const padded = Buffer.from(JSON.stringify(claims)).toString('base64');
+    const urlSafe = padded.replace(/\+/g, '-').replace(/\//g, '_');
+
+    expect(urlSafe.endsWith('=')).toBe(true);
+    expect(decodeIdToken(tokenWithPayload(urlSafe))).toEqual(claims);
+  });
+
+  it('should decode UTF-8 names', () => {
+    const claims = { ...baseClaims, name: 'Zoë Łukasiewicz 山田 🙂' };
+
+    expect(decodeIdToken(tokenWithPayload(encode(claims))).name).toBe(
+      'Zoë Łukasiewicz 山田 🙂'
+    );
+  });
+
+  it('should decode tokens from the test factory', () => {
+    const idToken = createMockIdToken({ sub: 'user-1', nonce: 'n' });
+
+    expect(decodeIdToken(idToken)).toMatchObject({ sub: 'user-1', nonce: 'n' });
+  });
+
+  describe('malformed tokens', () => {
+    it('should reject tokens without three segments', () => {
+      expectInvalidToken(
+        'not-a-jwt',
+        'expected 3 dot-separated segments, got 1'
+      );
+      expectInvalidToken('a.b', 'got 2');
+    });
+
+    it('should reject characters outside the base64url alphabet', () => {
+      expectInvalidToken(
+        tokenWithPayload('eyJ+c3ViIjoi'),
+        "unexpected character '+'"
+      );
+    });
+
+    it('should reject impossible segment lengths', () => {
+      expectInvalidToken(
+        tokenWithPayload('abcde'),
+        'impossible base64url length'
+      );
+    });
+
+    it('should reject payloads that are not JSON', () => {
+      expectInvalidToken(
+        tokenWithPayload(Buffer.from('{sub:').toString('base64url')),
+        'payload is not valid JSON'
+      );
+    });
+
+    it('should reject payloads that are not objects', () => {
+      expectInvalidToken(tokenWithPayload(encode([1, 2])), 'not a JSON object');
+    });
+
+    it('should reject invalid UTF-8', () => {
+      expectInvalidToken(
+        tokenWithPayload(Buffer.from([0x7b, 0xc3, 0x28]).toString('base64url')),
+        'not valid UTF-8'
+      );
+    });
+
+    it.each(['iss', 'aud', 'sub', 'iat', 'exp'])(
+      'should reject a token without %s',
+      (claim) => {
+        const claims: Record<string, unknown> = { ...baseClaims };
+        delete claims[claim];
+
+        expectInvalidToken(
+          tokenWithPayload(encode(claims)),
+          `claim '${claim}' is missing`
+        );
+      }
+    );
+
+    it('should reject claims with the wrong type', () => {
+      expectInvalidToken(
+        tokenWithPayload(encode({ ...baseClaims, exp: '1700003600' })),
+        "claim 'exp' is missing or not a number"
+      );
+    });
+  });
+});
+
+describe('validateIdToken', () => {
+  const now = 1700001000;
+  const token = (claims: Record<string, unknown> = {}) =>
+    tokenWithPayload(encode({ ...baseClaims, ...claims }));
+
+  it('should accept a token that passes every check', () => {
+    const result = validateIdToken(token({ nonce: 'n' }), {
+      audience: baseClaims.aud,
+      nonce: 'n',
+      now,
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      claims: expect.objectContaining({ sub: baseClaims.sub }),
+      failures: [],
+    });
+  });
+
+  it('should report malformed tokens instead of throwing', () => {
+    const result = validateIdToken('not-a-jwt');
+
+    expect(result.valid).toBe(false);
+    expect(result.claims).toBeNull();
+    expect(result.failures).toEqual([
+      {
+        code: 'MALFORMED',
+        message: expect.stringContaining('3 dot-separated'),
+      },
+    ]);
+  });
+
+  it('should reject expired tokens beyond the clock skew', () => {
+    const expiredAt = baseClaims.exp;
+
+    expect(validateIdToken(token(), { now: expiredAt + 300 }).failures).toEqual(
+      []
+    );
+    expect(validateIdToken(token(), { now: expiredAt + 301 }).failures).toEqual(
+      [{ code: 'EXPIRED', message: expect.any(String) }]
+    );
+  });
+
+  it('should honor a custom clock skew', () => {
+    const result = validateIdToken(token(), {
+      now: baseClaims.exp + 10,
+      clockSkewSeconds: 0,
+    });
+
+    expect(result.failures.map((failure) => failure.code)).toEqual(['EXPIRED']);
+  });
+
+  it('should reject tokens issued in the future', () => {
+    const result = validateIdToken(token({ iat: now + 301 }), { now });
+
+    expect(result.failures.map((failure) => failure.code)).toEqual([
+      'NOT_YET_VALID',
+    ]);
+  });
+
+  it('should accept both Google issuers', () => {
+    expect(
+      validateIdToken(token({ iss: 'accounts.google.com' }), { now }).valid
+    ).toBe(true);
+    expect(
+      validateIdToken(token({ iss: 'https://evil.example.com' }), { now })
+        .failures
+    ).toEqual([
+      {
+        code: 'INVALID_ISSUER',
+        message: "Unexpected issuer 'https://evil.example.com'",
+      },
+    ]);
+  });
+
+  it('should reject another audience', () => {
+    const result = validateIdToken(token(), {
+      audience: [
+        'a.apps.googleusercontent.com',
+        'b.apps.googleusercontent.com',
+      ],
+      now,
+    });
+
+    expect(result.failures).toEqual([
+      {
+        code: 'INVALID_AUDIENCE',
+        message: `Token was issued for '${baseClaims.aud}', expected 'a.apps.googleusercontent.com' or 'b.apps.googleusercontent.com'`,
+      },
+    ]);
+  });
+
+  it('should reject a mismatched or missing nonce', () => {
+    expect(
+      validateIdToken(token({ nonce: 'other' }), { nonce: 'n', now }).failures
+    ).toEqual([
+      {
+        code: 'NONCE_MISMATCH',
+        message: 'Token nonce does not match the expected value',
+      },
+    ]);
+    expect(validateIdToken(token(), { nonce: 'n', now }).failures).toEqual([
+      { code: 'NONCE_MISMATCH', message: 'Token has no nonce claim' },
+    ]);
+  });
+
+  it('should list every failure at once', () => {
+    const result = validateIdToken(
+      token({ iss: 'evil', aud: 'other', exp: 0 }),
+      { audience: baseClaims.aud, nonce: 'n', now }
+    );
+
+    expect(result.failures.map((failure) => failure.code)).toEqual([
+      'EXPIRED',
+      'INVALID_ISSUER',
+      'INVALID_AUDIENCE',
+      'NONCE_MISMATCH',
+    ]);
+  });
+});
@@ -68,12 +68,12 @@ describe('Native Module Interface', () => {
       const config = createMockConfig();
 
       await expect(
-        NativeGoogleSigninModern.configure(config.webClientId)
+        NativeGoogleSigninModern.configure({ webClientId: config.webClientId })
       ).resolves.toBeUndefined();
 
-      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledWith(
-        config.webClientId
-      );
+      expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledWith({
+        webClientId: config.webClientId,
+      });
       expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
     });
 
@@ -93,7 +93,7 @@ describe('Native Module Interface', () => {
       const expectedResult = createMockSignInResult();
       mockGoogleSignIn.setSignedIn(expectedResult.user);
 
-      const result = await NativeGoogleSigninModern.signIn();
+      const result = await NativeGoogleSigninModern.signIn({});
 
       expect(result).toHaveProperty('idToken');
       expect(result).toHaveProperty('user');
@@ -105,7 +105,9 @@ describe('Native Module Interface', () => {
     it('should mock getTokens method', async () => {
       mockGoogleSignIn.setState({ isConfigured: true, isSignedIn: true });
 
-      const tokens = await NativeGoogleSigninModern.getTokens();
+      const tokens = await NativeGoogleSigninModern.getTokens({
+        interactive: true,
+      });
 
       expect(tokens).toHaveProperty('idToken');
       expect(tokens).toHaveProperty('accessToken');
@@ -119,9 +121,9 @@ describe('Native Module Interface', () => {
     it('should simulate configuration errors', async () => {
       mockGoogleSignIn.setError(new Error('Configuration failed'));
 
-      await expect(NativeGoogleSigninModern.configure('test')).rejects.toThrow(
-        'Configuration failed'
-      );
+      await expect(
+        NativeGoogleSigninModern.configure({ webClientId: 'test' })
+      ).rejects.toThrow('Configuration failed');
     });
 
     it('should simulate sign in errors with codes', async () => {
@@ -132,7 +134,7 @@ describe('Native Module Interface', () => {
       mockGoogleSignIn.setError(error);
 
       try {
-        await NativeGoogleSigninModern.signIn();
+        await NativeGoogleSigninModern.signIn({});
         fail('Should have thrown error');
       } catch (thrownError) {
         expect((thrownError as Error).message).toBe(
@@ -145,14 +147,14 @@ describe('Native Module Interface', () => {
     it('should clear errors properly', async () => {
       // Set error
       mockGoogleSignIn.setError(new Error('Test error'));
-      await expect(NativeGoogleSigninModern.configure('test')).rejects.toThrow(
-        'Test error'
-      );
+      await expect(
+        NativeGoogleSigninModern.configure({ webClientId: 'test' })
+      ).rejects.toThrow('Test error');
 
       // Clear error
       mockGoogleSignIn.clearError();
       await expect(
-        NativeGoogleSigninModern.configure('test')
+        NativeGoogleSigninModern.configure({ webClientId: 'test' })
       ).resolves.toBeUndefined();
     });
   });
@@ -162,8 +164,8 @@ describe('Native Module Interface', () => {
       mockGoogleSignIn.setState({ isConfigured: true });
 
       // Multiple calls should generate different tokens but consistent user
-      const result1 = await NativeGoogleSigninModern.signIn();
-      const result2 = await NativeGoogleSigninModern.signIn();
+      const result1 = await NativeGoogleSigninModern.signIn({});
+      const result2 = await NativeGoogleSigninModern.signIn({});
 
       // Tokens should be different (fresh)
       expect(result1.idToken).not.toBe(result2.idToken);
@@ -178,7 +180,7 @@ describe('Native Module Interface', () => {
       mockGoogleSignIn.setSignInDelay(100); // 100ms delay
 
       const startTime = Date.now();
-      await NativeGoogleSigninModern.signIn();
+      await NativeGoogleSigninModern.signIn({});
       const endTime = Date.now();
 
       expect(endTime - startTime).toBeGreaterThanOrEqual(100); // 100ms delay (setSignInDelay adds buffer internally)
@@ -193,7 +195,7 @@ describe('Native Module Interface', () => {
       mockGoogleSignIn.setState({ isConfigured: true });
       mockGoogleSignIn.setSignedIn(customUser);
 
-      const result = await NativeGoogleSigninModern.signIn();
+      const result = await NativeGoogleSigninModern.signIn({});
 
       expect(result.user.name).toBe('Custom Test User');
       expect(result.user.email).toBe('custom@test.com');
@@ -210,13 +212,15 @@ describe('Native Module Interface', () => {
       expect(state.isSignedIn).toBe(false);
 
       // Configure
-      await NativeGoogleSigninModern.configure(config.webClientId);
+      await NativeGoogleSigninModern.configure({
+        webClientId: config.webClientId,
+      });
       state = mockGoogleSignIn.getState();
       expect(state.isConfigured).toBe(true);
       expect(state.isSignedIn).toBe(false);
 
       // Sign in
-      await NativeGoogleSigninModern.signIn();
+      await NativeGoogleSigninModern.signIn({});
       state = mockGoogleSignIn.getState();
       expect(state.isConfigured).toBe(true);
       expect(state.isSignedIn).toBe(true);
@@ -232,10 +236,12 @@ describe('Native Module Interface', () => {
       const config = createMockConfig();
 
       // Configure first
-      await NativeGoogleSigninModern.configure(config.webClientId);
+      await NativeGoogleSigninModern.configure({
+        webClientId: config.webClientId,
+      });
 
       // Then sign in
-      await NativeGoogleSigninModern.signIn();
+      await NativeGoogleSigninModern.signIn({});
 
       // Verify call order
       const { mocks } = mockGoogleSignIn;
@@ -252,10 +258,12 @@ describe('Native Module Interface', () => {
     it('should track all method calls', async () => {
       const config = createMockConfig();
 
-      await NativeGoogleSigninModern.configure(config.webClientId);
+      await NativeGoogleSigninModern.configure({
+        webClientId: config.webClientId,
+      });
       await NativeGoogleSigninModern.isPlayServicesAvailable();
-      await NativeGoogleSigninModern.signIn();
-      await NativeGoogleSigninModern.getTokens();
+      await NativeGoogleSigninModern.signIn({});
+      await NativeGoogleSigninModern.getTokens({ interactive: true });
       await NativeGoogleSigninModern.isSignedIn();
       await NativeGoogleSigninModern.signOut();
 
@@ -269,8 +277,8 @@ describe('Native Module Interface', () => {
     });
 
     it('should reset mock call counts', () => {
-      mockGoogleSignIn.mocks.configure('test');
-      mockGoogleSignIn.mocks.configure('test2');
+      mockGoogleSignIn.mocks.configure({ webClientId: 'test' });
+      mockGoogleSignIn.mocks.configure({ webClientId: 'test2' });
 
       expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(2);
 
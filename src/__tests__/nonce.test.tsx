@@ -0,0 +1,89 @@
+/**
+ * Tests for nonce generation and the SHA-256 helper
+ */
+
+import { GoogleSignInError } from '../errors';
+import { createNonce, sha256 } from '../nonce';
+import { expectErrorCode } from './test-utils';
+
+const thrownBy = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GoogleSignInError);
+    return error;
+  }
+  throw new Error('Expected a GoogleSignInError');
+};
+
+describe('sha256', () => {
+  it('should hash the empty string', () => {
+    expect(sha256('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('should hash a short ASCII string', () => {
+    expect(sha256('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('should hash input spanning multiple blocks', () => {
+    expect(
+      sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')
+    ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should encode non-ASCII input as UTF-8', () => {
+    expect(sha256('héllo 👋')).toBe(
+      require('crypto').createHash('sha256').update('héllo 👋').digest('hex')
+    );
+  });
+});
+
+describe('createNonce', () => {
+  it('should return a URL-safe nonce and its SHA-256 hash', () => {
+    const { nonce, hashedNonce } = createNonce();
+
+    expect(nonce).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(hashedNonce).toBe(sha256(nonce));
+    expect(hashedNonce).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should generate a different nonce on each call', () => {
+    expect(createNonce().nonce).not.toBe(createNonce().nonce);
+  });
+
+  it('should honour a custom byte length', () => {
+    expect(createNonce(16).nonce).toHaveLength(22);
+  });
+
+  it('should reject byte lengths below 16', () => {
+    expect(() => createNonce(8)).toThrow(
+      'createNonce() requires a byteLength of at least 16'
+    );
+    expectErrorCode(
+      thrownBy(() => createNonce(8)),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('should throw a helpful error without crypto.getRandomValues', () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    Object.defineProperty(globalThis, 'crypto', {
+      value: undefined,
+      configurable: true,
+    });
+
+    try {
+      expect(() => createNonce()).toThrow(/react-native-get-random-values/);
+      expectErrorCode(
+        thrownBy(() => createNonce()),
+        'INVALID_ARGUMENT'
+      );
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', descriptor!);
+    }
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for GoogleSignInProvider and useGoogleSignInContext
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import { StrictMode } from 'react';
+import { Text } from 'react-native';
+import { render, renderHook, screen } from '@testing-library/react-native';
+import {
+  GoogleSignInErrorCode,
+  GoogleSignInProvider,
+  useGoogleSignInContext,
+} from '../index';
+import { _resetHooksForTesting } from '../hooks';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import { createMockConfig, mockUsers } from './factories';
+import { commonTestCleanup, commonTestSetup } from './test-utils';
+
+function AuthState() {
+  const { ready, status, user, error } = useGoogleSignInContext();
+  if (!ready) {
+    return <Text>splash</Text>;
+  }
+  return (
+    <Text>
+      {status}:{user?.email ?? 'none'}:{error?.code ?? 'ok'}
+    </Text>
+  );
+}
+
+describe('GoogleSignInProvider', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+    _resetHooksForTesting();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  it('should configure once and become ready', async () => {
+    const config = createMockConfig();
+
+    render(
+      <GoogleSignInProvider config={config}>
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+
+    expect(screen.getByText('splash')).toBeTruthy();
+    expect(await screen.findByText('signedOut:none:ok')).toBeTruthy();
+    expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
+    expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledWith(
+      expect.objectContaining({ webClientId: config.webClientId })
+    );
+    expect(mockGoogleSignIn.mocks.signInSilently).not.toHaveBeenCalled();
+  });
+
+  it('should configure only once in StrictMode', async () => {
+    render(
+      <StrictMode>
+        <GoogleSignInProvider config={createMockConfig()}>
+          <AuthState />
+        </GoogleSignInProvider>
+      </StrictMode>
+    );
+
+    await screen.findByText('signedOut:none:ok');
+    expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore config changes after mounting', async () => {
+    const { rerender } = render(
+      <GoogleSignInProvider config={createMockConfig()}>
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+    await screen.findByText('signedOut:none:ok');
+
+    rerender(
+      <GoogleSignInProvider
+        config={createMockConfig({
+          webClientId: 'other.apps.googleusercontent.com',
+        })}
+      >
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+
+    expect(mockGoogleSignIn.mocks.configure).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restore a previous session before becoming ready', async () => {
+    mockGoogleSignIn.setSignedIn(mockUsers.complete);
+
+    render(
+      <GoogleSignInProvider config={createMockConfig()} restoreOnMount>
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+
+    expect(
+      await screen.findByText('signedIn:complete@example.com:ok')
+    ).toBeTruthy();
+    expect(mockGoogleSignIn.mocks.signInSilently).toHaveBeenCalledTimes(1);
+  });
+
+  it('should become ready signed out when there is no session to restore', async () => {
+    render(
+      <GoogleSignInProvider config={createMockConfig()} restoreOnMount>
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+
+    expect(await screen.findByText('signedOut:none:ok')).toBeTruthy();
+  });
+
+  it('should report a configuration failure and skip the restore', async () => {
+    mockGoogleSignIn.setError(
+      Object.assign(new Error('Bad client ID'), { code: 'CONFIGURE_ERROR' })
+    );
+
+    render(
+      <GoogleSignInProvider config={createMockConfig()} restoreOnMount>
+        <AuthState />
+      </GoogleSignInProvider>
+    );
+
+    expect(
+      await screen.findByText(
+        `signedOut:none:${GoogleSignInErrorCode.CONFIGURE_ERROR}`
+      )
+    ).toBeTruthy();
+    expect(mockGoogleSignIn.mocks.signInSilently).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the context is used outside the provider', () => {
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    expect(() => renderHook(() => useGoogleSignInContext())).toThrow(
+      'useGoogleSignInContext() must be used inside <GoogleSignInProvider>'
+    );
+    expect(() => renderHook(() => useGoogleSignInContext())).toThrow(
+      expect.objectContaining({ code: 'NO_PROVIDER' })
+    );
+
+    consoleError.mockRestore();
+  });
+});
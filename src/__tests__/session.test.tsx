@@ -0,0 +1,213 @@
+/**
+ * Tests for the persisted session, getCurrentUser() and isSignedIn()
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import { GoogleSignInModule } from '../index';
+import { parseSession, serializeSession } from '../session';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import { createMockConfig, createMockIdToken, mockUsers } from './factories';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  setupConfiguredState,
+} from './test-utils';
+
+const user = {
+  id: '110169484474386276334',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+};
+
+const persisted = () =>
+  parseSession(mockGoogleSignIn.getState().persistedSession);
+
+describe('Persisted session', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('serialization', () => {
+    it('should round-trip a session', () => {
+      const session = { user, idTokenExpiresAt: 1700003600 };
+
+      expect(parseSession(serializeSession(session))).toEqual(session);
+    });
+
+    it.each([
+      ['missing', null],
+      ['not JSON', '{user:'],
+      ['not an object', '42'],
+      ['from an unknown version', JSON.stringify({ version: 99, user })],
+      ['without a valid user', JSON.stringify({ version: 1, user: { id: 1 } })],
+    ])('should treat a session that is %s as signed out', (_, value) => {
+      expect(parseSession(value)).toBeNull();
+    });
+  });
+
+  describe('writing', () => {
+    it('should persist the user and token expiry after sign-in', async () => {
+      await setupConfiguredState();
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(persisted()).toEqual({
+        user: result.user,
+        idTokenExpiresAt: result.claims.exp,
+      });
+    });
+
+    it('should not persist any tokens', async () => {
+      await setupConfiguredState();
+
+      const result = await GoogleSignInModule.signIn();
+
+      expect(mockGoogleSignIn.getState().persistedSession).not.toContain(
+        result.idToken
+      );
+    });
+
+    it('should update the expiry after a token refresh', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      const exp = Math.floor(Date.now() / 1000) + 7200;
+      mockGoogleSignIn.mocks.getTokens.mockResolvedValueOnce({
+        idToken: createMockIdToken({ exp }),
+        accessToken: 'access-token',
+      });
+
+      await GoogleSignInModule.getTokens({ forceRefresh: true });
+
+      expect(persisted()?.idTokenExpiresAt).toBe(exp);
+    });
+
+    it('should clear the session on signOut', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+
+      await GoogleSignInModule.signOut();
+
+      expect(mockGoogleSignIn.mocks.writeSession).toHaveBeenLastCalledWith(
+        null
+      );
+      expect(mockGoogleSignIn.getState().persistedSession).toBeNull();
+    });
+
+    it('should clear the session when a revocation is detected', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      mockGoogleSignIn.mocks.getTokens.mockRejectedValueOnce(
+        Object.assign(new Error('No user'), { code: 'NO_USER' })
+      );
+
+      await GoogleSignInModule.getTokens().catch(() => {});
+
+      expect(persisted()).toBeNull();
+    });
+
+    it('should still sign in when the session cannot be saved', async () => {
+      await setupConfiguredState();
+      const consoleWarn = jest
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {});
+      mockGoogleSignIn.mocks.writeSession.mockRejectedValueOnce(
+        new Error('Disk full')
+      );
+
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+
+      expect(GoogleSignInModule.getCurrentUser()).not.toBeNull();
+      expect(consoleWarn).toHaveBeenCalledWith(
+        'GoogleSignIn: could not persist the session',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('restoring', () => {
+    it('should restore the user synchronously after configure', async () => {
+      mockGoogleSignIn.setSignedIn(user);
+      mockGoogleSignIn.setPersistedSession(
+        serializeSession({ user, idTokenExpiresAt: null })
+      );
+
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      await GoogleSignInModule.configure(createMockConfig());
+
+      expect(GoogleSignInModule.getCurrentUser()).toEqual(user);
+      expect(mockGoogleSignIn.mocks.signInSilently).not.toHaveBeenCalled();
+    });
+
+    it('should drop a session the native SDK no longer has', async () => {
+      mockGoogleSignIn.setPersistedSession(
+        serializeSession({ user, idTokenExpiresAt: null })
+      );
+
+      await GoogleSignInModule.configure(createMockConfig());
+
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      expect(mockGoogleSignIn.getState().persistedSession).toBeNull();
+    });
+
+    it('should ignore an unreadable session', async () => {
+      mockGoogleSignIn.setSignedIn(user);
+      mockGoogleSignIn.setPersistedSession('corrupted');
+
+      await GoogleSignInModule.configure(createMockConfig());
+
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+    });
+
+    it('should keep the user when configure is called again', async () => {
+      await setupConfiguredState();
+      const result = await GoogleSignInModule.signIn();
+
+      await GoogleSignInModule.configure(createMockConfig());
+
+      expect(GoogleSignInModule.getCurrentUser()).toBe(result.user);
+    });
+  });
+
+  describe('isSignedIn', () => {
+    it('should be true with a session the native SDK confirms', async () => {
+      mockGoogleSignIn.setSignedIn(mockUsers.complete);
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+
+      await expect(GoogleSignInModule.isSignedIn()).resolves.toBe(true);
+    });
+
+    it('should be false without a session, whatever the native SDK says', async () => {
+      await setupConfiguredState();
+      mockGoogleSignIn.setSignedIn(mockUsers.complete);
+
+      await expect(GoogleSignInModule.isSignedIn()).resolves.toBe(false);
+    });
+
+    it('should end a session the native SDK lost', async () => {
+      await setupConfiguredState();
+      await GoogleSignInModule.signIn();
+      const listener = jest.fn();
+      GoogleSignInModule.onAuthStateChanged(listener);
+      mockGoogleSignIn.setSignedOut();
+
+      await expect(GoogleSignInModule.isSignedIn()).resolves.toBe(false);
+
+      expect(GoogleSignInModule.getCurrentUser()).toBeNull();
+      expect(listener).toHaveBeenCalledWith(null);
+      expect(persisted()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Tests for storage adapters and the versioned record format
+ */
+
+// Mock the native module before importing
+jest.mock(
+  '../NativeGoogleSigninModern',
+  () => require('./__mocks__/NativeGoogleSigninModern').default
+);
+
+import {
+  createInMemoryStorage,
+  GoogleSignInModule,
+  type GoogleSignInStorage,
+} from '../index';
+import { parseSession, parseTokens, serializeTokens } from '../session';
+import {
+  parseVersioned,
+  serializeVersioned,
+  type VersionedFormat,
+} from '../storage';
+import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
+import { createMockConfig, createMockIdToken } from './factories';
+import {
+  commonTestCleanup,
+  commonTestSetup,
+  expectErrorCode,
+} from './test-utils';
+
+const user = {
+  id: '110169484474386276334',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+};
+
+/**
+ * In-memory storage whose methods are spies, with synchronous access to its items
+ */
+const createSpyStorage = () => {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      items.delete(key);
+    }),
+  } satisfies GoogleSignInStorage;
+  return { storage, items };
+};
+
+describe('Storage', () => {
+  beforeEach(async () => {
+    await commonTestSetup();
+  });
+
+  afterEach(() => {
+    commonTestCleanup();
+  });
+
+  describe('createInMemoryStorage', () => {
+    it('should store, read and remove items', async () => {
+      const storage = createInMemoryStorage();
+
+      await storage.setItem('key', 'value');
+      await expect(storage.getItem('key')).resolves.toBe('value');
+
+      await storage.removeItem('key');
+      await expect(storage.getItem('key')).resolves.toBeNull();
+    });
+
+    it('should not share items between instances', async () => {
+      const first = createInMemoryStorage();
+      const second = createInMemoryStorage();
+
+      await first.setItem('key', 'value');
+
+      await expect(second.getItem('key')).resolves.toBeNull();
+    });
+  });
+
+  describe('versioned format', () => {
+    // Version 1 stored a single `name`; version 2 split it, version 3 added `locale`
+    const format: VersionedFormat<{ first: string; last: string }> = {
+      version: 3,
+      migrations: {
+        1: ({ name, ...rest }) => {
+          const [first = '', last = ''] = String(name).split(' ');
+          return { ...rest, first, last };
+        },
+        2: (fields) => ({ ...fields, locale: 'en' }),
+      },
+      read: ({ first, last }) =>
+        typeof first === 'string' && typeof last === 'string'
+          ? { first, last }
+          : null,
+    };
+
+    it('should round-trip the current version', () => {
+      const value = { first: 'Jane', last: 'Doe' };
+
+      expect(parseVersioned(format, serializeVersioned(format, value))).toEqual(
+        value
+      );
+    });
+
+    it('should migrate records written by older versions', () => {
+      expect(
+        parseVersioned(format, JSON.stringify({ version: 1, name: 'Jane Doe' }))
+      ).toEqual({ first: 'Jane', last: 'Doe' });
+    });
+
+    it('should ignore records from a newer version', () => {
+      expect(
+        parseVersioned(
+          format,
+          JSON.stringify({ version: 4, first: 'Jane', last: 'Doe' })
+        )
+      ).toBeNull();
+    });
+
+    it('should ignore records with no path to the current version', () => {
+      expect(
+        parseVersioned(
+          format,
+          JSON.stringify({ version: 0, first: 'Jane', last: 'Doe' })
+        )
+      ).toBeNull();
+    });
+
+    it.each([
+      ['without a version', JSON.stringify({ first: 'Jane', last: 'Doe' })],
+      ['with a fractional version', JSON.stringify({ version: 2.5 })],
+      ['that are arrays', '[1]'],
+    ])('should ignore records %s', (_, value) => {
+      expect(parseVersioned(format, value)).toBeNull();
+    });
+  });
+
+  describe('configured storage', () => {
+    it('should reject a storage without the adapter methods', async () => {
+      const error = await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: { getItem: async () => null } as never,
+      }).catch((e: unknown) => e);
+
+      expectErrorCode(error, 'INVALID_ARGUMENT');
+      expect((error as Error).message).toBe(
+        'storage must implement getItem, setItem and removeItem'
+      );
+    });
+
+    it('should keep the profile and tokens in separate stores', async () => {
+      const profile = createSpyStorage();
+      const sensitive = createSpyStorage();
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+        sensitiveStorage: sensitive.storage,
+      });
+
+      await GoogleSignInModule.signIn();
+      const tokens = await GoogleSignInModule.getTokens();
+
+      expect([...profile.items.keys()]).toEqual(['GoogleSignIn.session']);
+      expect([...sensitive.items.keys()]).toEqual(['GoogleSignIn.tokens']);
+      expect(
+        parseTokens(sensitive.items.get('GoogleSignIn.tokens') ?? null)
+      ).toEqual(tokens);
+      expect(profile.items.get('GoogleSignIn.session')).not.toContain(
+        tokens.accessToken
+      );
+    });
+
+    it('should keep tokens in memory when only storage is set', async () => {
+      const profile = createSpyStorage();
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+      });
+
+      await GoogleSignInModule.signIn();
+      await GoogleSignInModule.getTokens();
+
+      expect(profile.storage.setItem).not.toHaveBeenCalledWith(
+        'GoogleSignIn.tokens',
+        expect.anything()
+      );
+    });
+
+    it('should restore the session and cached tokens on the next launch', async () => {
+      const tokens = {
+        idToken: createMockIdToken({ sub: user.id }),
+        accessToken: 'stored-access-token',
+      };
+      const profile = createSpyStorage();
+      const sensitive = createSpyStorage();
+      profile.items.set(
+        'GoogleSignIn.session',
+        JSON.stringify({ version: 1, user, idTokenExpiresAt: null })
+      );
+      sensitive.items.set('GoogleSignIn.tokens', serializeTokens(tokens));
+      mockGoogleSignIn.setSignedIn(user);
+
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+        sensitiveStorage: sensitive.storage,
+      });
+
+      expect(GoogleSignInModule.getCurrentUser()).toEqual(user);
+      await expect(GoogleSignInModule.getTokens()).resolves.toEqual(tokens);
+      expect(mockGoogleSignIn.mocks.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should identify the user by the ID token subject after a silent sign-in', async () => {
+      const profile = createSpyStorage();
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+      });
+      // iOS used to report the email as the ID of restored users
+      mockGoogleSignIn.mocks.signInSilently.mockResolvedValueOnce({
+        idToken: createMockIdToken({ sub: user.id }),
+        user: { ...user, id: user.email },
+      });
+
+      const result = await GoogleSignInModule.signInSilently();
+
+      expect(result.user.id).toBe(user.id);
+      expect(
+        parseSession(profile.items.get('GoogleSignIn.session') ?? null)?.user.id
+      ).toBe(user.id);
+    });
+
+    it('should not reuse stored tokens issued to another user', async () => {
+      const profile = createSpyStorage();
+      const sensitive = createSpyStorage();
+      profile.items.set(
+        'GoogleSignIn.session',
+        JSON.stringify({ version: 1, user, idTokenExpiresAt: null })
+      );
+      sensitive.items.set(
+        'GoogleSignIn.tokens',
+        serializeTokens({
+          idToken: createMockIdToken({ sub: 'someone-else' }),
+          accessToken: 'other-access-token',
+        })
+      );
+      mockGoogleSignIn.setSignedIn(user);
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+        sensitiveStorage: sensitive.storage,
+      });
+
+      await GoogleSignInModule.getTokens();
+
+      expect(mockGoogleSignIn.mocks.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear both stores on signOut', async () => {
+      const profile = createSpyStorage();
+      const sensitive = createSpyStorage();
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+        sensitiveStorage: sensitive.storage,
+      });
+      await GoogleSignInModule.signIn();
+      await GoogleSignInModule.getTokens();
+
+      await GoogleSignInModule.signOut();
+
+      expect(profile.items.size).toBe(0);
+      expect(sensitive.items.size).toBe(0);
+    });
+
+    it('should copy the session into stores configured after sign-in', async () => {
+      await GoogleSignInModule.configure(createMockConfig());
+      const result = await GoogleSignInModule.signIn();
+      const profile = createSpyStorage();
+
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage: profile.storage,
+      });
+
+      expect(
+        parseSession(profile.items.get('GoogleSignIn.session') ?? null)?.user
+      ).toEqual(result.user);
+    });
+
+    it('should treat a failing store as empty', async () => {
+      const consoleWarn = jest
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {});
+      const { storage } = createSpyStorage();
+      storage.getItem.mockRejectedValue(new Error('Keychain locked'));
+      storage.setItem.mockRejectedValue(new Error('Keychain locked'));
+
+      await GoogleSignInModule.configure({
+        ...createMockConfig(),
+        storage,
+        sensitiveStorage: storage,
+      });
+      await expect(
+        GoogleSignInModule.signIn()
+      ).resolves.toBeGoogleSignInResult();
+
+      expect(consoleWarn).toHaveBeenCalledWith(
+        "GoogleSignIn: could not read 'GoogleSignIn.session' from storage",
+        expect.any(Error)
+      );
+      expect(consoleWarn).toHaveBeenCalledWith(
+        'GoogleSignIn: could not persist the session',
+        expect.any(Error)
+      );
+    });
+  });
+});
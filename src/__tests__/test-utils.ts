@@ -3,6 +3,8 @@
  * Common testing patterns and utilities
  */
 
+import { decodeIdToken } from '../jwt';
+import { serializeSession } from '../session';
 import { mockGoogleSignIn } from './__mocks__/NativeGoogleSigninModern';
 import {
   createMockSignInResult,
@@ -20,13 +22,23 @@ export const setupSignedInUser = async (userOverrides = {}) => {
   // Reset mock state
   mockGoogleSignIn.reset();
 
-  // Actually configure the GoogleSignIn instance
-  const config = createMockConfig();
-  await GoogleSignInModule.configure(config);
-
-  // Create and set signed-in user
+  // Create and set signed-in user, as if they had signed in on an earlier launch
   const mockResult = createMockSignInResult(userOverrides);
   mockGoogleSignIn.setSignedIn(mockResult.user);
+  mockGoogleSignIn.setPersistedSession(
+    serializeSession({
+      user: {
+        ...mockResult.user,
+        name: mockResult.user.name ?? null,
+        photo: mockResult.user.photo ?? null,
+      },
+      idTokenExpiresAt: decodeIdToken(mockResult.idToken).exp,
+    })
+  );
+
+  // Actually configure the GoogleSignIn instance, which restores the session
+  const config = createMockConfig();
+  await GoogleSignInModule.configure(config);
 
   return mockResult;
 };
@@ -150,7 +162,10 @@ export const expectToThrow = async (
     } else if (expectedError instanceof Error) {
       expect(error!.message).toBe(expectedError.message);
       if ((expectedError as any).code) {
-        expect((error as any).code).toBe((expectedError as any).code);
+        // Wrapped native rejections keep the code they were rejected with in `nativeCode`
+        expect((error as any).nativeCode ?? (error as any).code).toBe(
+          (expectedError as any).code
+        );
       }
     }
   }
@@ -0,0 +1,180 @@
+import {
+  AppState,
+  Platform,
+  type AppStateStatus,
+  type NativeEventSubscription,
+} from 'react-native';
+import {
+  GoogleSignInError,
+  GoogleSignInErrorCode,
+  isGoogleSignInError,
+} from './errors';
+
+export interface GoogleSignInAutoRefreshOptions {
+  /**
+   * How many seconds before the ID token's `exp` to refresh. Defaults to 60.
+   */
+  leewaySeconds?: number;
+  /**
+   * Also refresh on Android, where Credential Manager still shows the account picker
+   * when several accounts authorized the app. Defaults to `false`.
+   */
+  runOnAndroid?: boolean;
+}
+
+const DEFAULT_LEEWAY_SECONDS = 60;
+
+const INITIAL_RETRY_DELAY_MS = 5_000;
+
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+// Retrying cannot fix these, and a cancelled prompt should not be shown again on a timer
+const FATAL_ERROR_CODES: ReadonlyArray<GoogleSignInErrorCode> = [
+  GoogleSignInErrorCode.NOT_CONFIGURED,
+  GoogleSignInErrorCode.NO_USER,
+  GoogleSignInErrorCode.SIGN_IN_REQUIRED,
+  GoogleSignInErrorCode.USER_CANCELLED,
+  GoogleSignInErrorCode.NO_SAVED_CREDENTIAL,
+];
+
+/**
+ * Refreshes tokens shortly before the ID token expires, backing off after failures.
+ * Timers only run while the app is in the foreground.
+ */
+export class TokenRefreshScheduler {
+  private enabled = false;
+  private leewaySeconds = DEFAULT_LEEWAY_SECONDS;
+  private paused = false;
+  private running = false;
+  private failures = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * @param getExpiry `exp` of the current ID token, or `null` when there is none
+   * @param refresh Fetch new tokens; must update what `getExpiry` returns
+   */
+  constructor(
+    private readonly getExpiry: () => number | null,
+    private readonly refresh: () => Promise<unknown>
+  ) {}
+
+  enable(options: GoogleSignInAutoRefreshOptions): void {
+    const leewaySeconds = options.leewaySeconds ?? DEFAULT_LEEWAY_SECONDS;
+    if (!Number.isFinite(leewaySeconds) || leewaySeconds < 0) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.INVALID_ARGUMENT,
+        `leewaySeconds must be a non-negative number, got ${String(leewaySeconds)}`
+      );
+    }
+    this.leewaySeconds = leewaySeconds;
+    if (Platform.OS === 'android' && options.runOnAndroid !== true) {
+      // A timer must not open the account picker over the app
+      this.disable();
+      return;
+    }
+    if (!this.enabled) {
+      this.enabled = true;
+      this.paused = AppState.currentState === 'background';
+      this.appStateSubscription = AppState.addEventListener('change', (state) =>
+        this.handleAppStateChange(state)
+      );
+    }
+    this.failures = 0;
+    this.schedule();
+  }
+
+  disable(): void {
+    this.enabled = false;
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  /**
+   * Plan the next refresh after a sign-in, sign-out or `getTokens()` call changed the token
+   */
+  expiryChanged(): void {
+    if (this.running) {
+      // The refresh in flight reschedules once it settles
+      return;
+    }
+    this.failures = 0;
+    this.schedule();
+  }
+
+  private handleAppStateChange(state: AppStateStatus): void {
+    if (state === 'background') {
+      this.paused = true;
+      this.clearTimer();
+    } else if (state === 'active' && this.paused) {
+      this.paused = false;
+      // A refresh that came due in the background runs right away
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
+    const expiry = this.getExpiry();
+    this.setTimer(
+      expiry === null ? null : (expiry - this.leewaySeconds) * 1000 - Date.now()
+    );
+  }
+
+  private retry(): void {
+    const delay = Math.min(
+      INITIAL_RETRY_DELAY_MS * 2 ** this.failures,
+      MAX_RETRY_DELAY_MS
+    );
+    this.failures++;
+    this.setTimer(delay);
+  }
+
+  private setTimer(delayMs: number | null): void {
+    this.clearTimer();
+    if (!this.enabled || this.paused || this.running || delayMs === null) {
+      return;
+    }
+    this.timer = setTimeout(() => this.run(), Math.max(0, delayMs));
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private run(): void {
+    this.timer = null;
+    this.running = true;
+    const previousExpiry = this.getExpiry();
+    this.refresh().then(
+      () => {
+        this.running = false;
+        const expiry = this.getExpiry();
+        if (
+          expiry !== null &&
+          previousExpiry !== null &&
+          expiry <= previousExpiry
+        ) {
+          // The platform handed back the same token; scheduling from it would spin
+          this.retry();
+        } else {
+          this.failures = 0;
+          this.schedule();
+        }
+      },
+      (error: unknown) => {
+        this.running = false;
+        if (
+          isGoogleSignInError(error) &&
+          FATAL_ERROR_CODES.includes(error.code)
+        ) {
+          return;
+        }
+        this.retry();
+      }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  ActivityIndicator,
+  Image,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import { useGoogleSignIn, useIsSigningIn } from './hooks';
+
+export type GoogleSigninButtonTheme = 'light' | 'dark' | 'neutral';
+
+export type GoogleSigninButtonShape = 'standard' | 'icon' | 'pill';
+
+export type GoogleSigninButtonLabel = 'signIn' | 'continue' | 'signUp';
+
+export type GoogleSigninButtonProps = {
+  /**
+   * Color scheme from Google's branding guidelines. Defaults to `'light'`.
+   */
+  theme?: GoogleSigninButtonTheme;
+  /**
+   * `'standard'` (rounded rectangle, default), `'pill'` or `'icon'` (logo only)
+   */
+  shape?: GoogleSigninButtonShape;
+  /**
+   * Which call to action to show. Defaults to `'signIn'`.
+   */
+  label?: GoogleSigninButtonLabel;
+  /**
+   * Language of the built-in labels, e.g. `'es'` or `'pt-BR'`. Unsupported languages
+   * fall back to English; pass `text` to supply your own translation.
+   */
+  locale?: string;
+  /**
+   * Replaces the built-in label
+   */
+  text?: string;
+  /**
+   * Defaults to `signIn({ presentation: 'button' })`, with failures reported
+   * through `useGoogleSignIn().error`
+   */
+  onPress?: () => void;
+  disabled?: boolean;
+  /**
+   * Show a spinner and ignore presses. Defaults to `true` while any `signIn()` is in progress.
+   */
+  loading?: boolean;
+  accessibilityLabel?: string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+};
+
+// Official translations of the three calls to action, keyed by language
+const LABELS: Record<string, Record<GoogleSigninButtonLabel, string>> = {
+  en: {
+    signIn: 'Sign in with Google',
+    continue: 'Continue with Google',
+    signUp: 'Sign up with Google',
+  },
+  es: {
+    signIn: 'Iniciar sesión con Google',
+    continue: 'Continuar con Google',
+    signUp: 'Registrarse con Google',
+  },
+  fr: {
+    signIn: 'Se connecter avec Google',
+    continue: 'Continuer avec Google',
+    signUp: "S'inscrire avec Google",
+  },
+  de: {
+    signIn: 'Über Google anmelden',
+    continue: 'Weiter mit Google',
+    signUp: 'Mit Google registrieren',
+  },
+  pt: {
+    signIn: 'Fazer login com o Google',
+    continue: 'Continuar com o Google',
+    signUp: 'Inscrever-se com o Google',
+  },
+};
+
+const THEMES: Record<
+  GoogleSigninButtonTheme,
+  { background: string; border: string | null; text: string; spinner: string }
+> = {
+  light: {
+    background: '#FFFFFF',
+    border: '#747775',
+    text: '#1F1F1F',
+    spinner: '#1F1F1F',
+  },
+  dark: {
+    background: '#131314',
+    border: '#8E918F',
+    text: '#E3E3E3',
+    spinner: '#E3E3E3',
+  },
+  neutral: {
+    background: '#F2F2F2',
+    border: null,
+    text: '#1F1F1F',
+    spinner: '#1F1F1F',
+  },
+};
+
+const logo = require('./assets/google-logo.png');
+
+function resolveLabel(label: GoogleSigninButtonLabel, locale?: string) {
+  const language = locale?.split(/[-_]/)[0]?.toLowerCase() ?? 'en';
+  return (LABELS[language] ?? LABELS.en!)[label];
+}
+
+/**
+ * "Sign in with Google" button following Google's branding guidelines
+ */
+export function GoogleSigninButton({
+  theme = 'light',
+  shape = 'standard',
+  label = 'signIn',
+  locale,
+  text,
+  onPress,
+  disabled = false,
+  loading,
+  accessibilityLabel,
+  style,
+  testID,
+}: GoogleSigninButtonProps) {
+  const { signIn } = useGoogleSignIn();
+  const isSigningIn = useIsSigningIn();
+  const busy = loading ?? isSigningIn;
+  const inactive = disabled || busy;
+  const colors = THEMES[theme];
+  const title = text ?? resolveLabel(label, locale);
+
+  const handlePress = () => {
+    if (onPress) {
+      onPress();
+    } else {
+      signIn({ presentation: 'button' });
+    }
+  };
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel ?? title}
+      accessibilityState={{ disabled: inactive, busy }}
+      disabled={inactive}
+      onPress={handlePress}
+      testID={testID}
+      style={({ pressed }) => [
+        styles.button,
+        shape === 'icon' && styles.icon,
+        shape === 'pill' && styles.pill,
+        { backgroundColor: colors.background },
+        colors.border !== null && {
+          borderWidth: StyleSheet.hairlineWidth,
+          borderColor: colors.border,
+        },
+        pressed && styles.pressed,
+        disabled && styles.disabled,
+        style,
+      ]}
+    >
+      <View style={styles.logoContainer}>
+        {busy ? (
+          <ActivityIndicator size="small" color={colors.spinner} />
+        ) : (
+          <Image
+            source={logo}
+            style={styles.logo}
+            accessibilityIgnoresInvertColors
+          />
+        )}
+      </View>
+      {shape !== 'icon' && (
+        <Text numberOfLines={1} style={[styles.text, { color: colors.text }]}>
+          {title}
+        </Text>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    height: 40,
+    paddingHorizontal: 12,
+    borderRadius: 4,
+  },
+  icon: {
+    width: 40,
+    paddingHorizontal: 0,
+    justifyContent: 'center',
+  },
+  pill: {
+    borderRadius: 20,
+  },
+  pressed: {
+    opacity: 0.88,
+  },
+  disabled: {
+    opacity: 0.38,
+  },
+  logoContainer: {
+    width: 20,
+    height: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  logo: {
+    width: 20,
+    height: 20,
+  },
+  text: {
+    marginLeft: 10,
+    fontSize: 14,
+    lineHeight: 20,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,333 @@
+import { GoogleSignInError, GoogleSignInErrorCode } from './errors';
+import type { GoogleSignInConfig } from './index';
+
+/**
+ * OAuth client IDs for one environment, such as dev, staging or prod
+ */
+export interface GoogleSignInProfile {
+  /**
+   * Client ID of the "Web application" OAuth client. Overrides the top-level `webClientId`.
+   */
+  webClientId?: string;
+  /**
+   * Client ID of the iOS OAuth client. Overrides the top-level `iosClientId`.
+   */
+  iosClientId?: string;
+}
+
+/**
+ * The client IDs `configure()` passes to the native module
+ */
+export interface ResolvedClientIds {
+  webClientId: string;
+  iosClientId: string | null;
+}
+
+const invalidConfig = (message: string) =>
+  new GoogleSignInError(GoogleSignInErrorCode.INVALID_ARGUMENT, message);
+
+/**
+ * Trim an optional client ID, rejecting anything but a non-blank string
+ */
+function readClientId(value: unknown, name: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalidConfig(
+      `${name} must be a non-empty client ID, got ${JSON.stringify(value)}`
+    );
+  }
+  return value.trim();
+}
+
+/**
+ * Pick the selected profile, if any, and merge its client IDs over the top-level ones
+ */
+export function resolveClientIds(
+  config: GoogleSignInConfig
+): ResolvedClientIds {
+  const { profiles, profile } = config;
+  let webClientId = readClientId(config.webClientId, 'webClientId');
+  let iosClientId = readClientId(config.iosClientId, 'iosClientId');
+  let source = '';
+
+  if (profiles !== undefined) {
+    if (
+      typeof profiles !== 'object' ||
+      profiles === null ||
+      Array.isArray(profiles)
+    ) {
+      throw invalidConfig(
+        'profiles must be an object mapping profile names to client IDs'
+      );
+    }
+    const names = Object.keys(profiles);
+    const expected = names.map((name) => `'${name}'`).join(', ');
+    if (names.length === 0) {
+      throw invalidConfig('profiles must define at least one profile');
+    }
+    if (profile === undefined) {
+      throw invalidConfig(
+        `profile is required when profiles are set; expected one of ${expected}`
+      );
+    }
+    const selected = Object.prototype.hasOwnProperty.call(profiles, profile)
+      ? profiles[profile]
+      : undefined;
+    if (selected === undefined) {
+      throw invalidConfig(
+        `Unknown profile ${JSON.stringify(profile)}; expected one of ${expected}`
+      );
+    }
+    if (typeof selected !== 'object' || selected === null) {
+      throw invalidConfig(`profiles.${profile} must be an object`);
+    }
+    webClientId =
+      readClientId(selected.webClientId, `profiles.${profile}.webClientId`) ??
+      webClientId;
+    iosClientId =
+      readClientId(selected.iosClientId, `profiles.${profile}.iosClientId`) ??
+      iosClientId;
+    source = `; set it in profile '${profile}' or at the top level`;
+  } else if (profile !== undefined) {
+    throw invalidConfig(
+      `profile ${JSON.stringify(profile)} was given, but no profiles are configured`
+    );
+  }
+
+  if (webClientId === undefined) {
+    throw invalidConfig(`webClientId is required${source}`);
+  }
+  if (iosClientId === webClientId) {
+    throw invalidConfig(
+      'iosClientId must be the client ID of an iOS OAuth client, not the webClientId'
+    );
+  }
+  return { webClientId, iosClientId: iosClientId ?? null };
+}
+
+export type GoogleSignInDiagnosticSeverity = 'error' | 'warning';
+
+export type GoogleSignInDiagnosticCode =
+  | 'INVALID_CLIENT_IDS'
+  | 'MALFORMED_CLIENT_ID'
+  | 'REVERSED_CLIENT_ID'
+  | 'CLIENT_PROJECT_MISMATCH'
+  | 'INVALID_SCOPE'
+  | 'DUPLICATE_SCOPE'
+  | 'INVALID_HOSTED_DOMAIN'
+  | 'HOSTED_DOMAIN_WITHOUT_EMAIL_SCOPE'
+  | 'TOKEN_EXPIRY_MARGIN_TOO_LARGE';
+
+/**
+ * A problem found by `validateConfig()`. Errors make sign-in fail; warnings point at
+ * settings that are likely unintended.
+ */
+export interface GoogleSignInConfigDiagnostic {
+  severity: GoogleSignInDiagnosticSeverity;
+  code: GoogleSignInDiagnosticCode;
+  message: string;
+  /**
+   * What to change to fix it
+   */
+  hint: string;
+}
+
+// `<project number>-<id>.apps.googleusercontent.com`
+const CLIENT_ID_PATTERN = /^(\d+)-[a-z0-9]+\.apps\.googleusercontent\.com$/;
+
+const REVERSED_CLIENT_ID_PREFIX = 'com.googleusercontent.apps.';
+
+// Scopes Google accepts by name; every other scope is a URL
+const SCOPE_NAMES: ReadonlyArray<string> = ['openid', 'email', 'profile'];
+
+const EMAIL_SCOPES: ReadonlyArray<string> = [
+  'email',
+  'https://www.googleapis.com/auth/userinfo.email',
+];
+
+// Google ID tokens are valid for an hour
+const ID_TOKEN_LIFETIME_SECONDS = 3600;
+
+/**
+ * Check one client ID, returning its project number when it is well-formed
+ */
+function checkClientId(
+  clientId: string,
+  name: string,
+  diagnostics: GoogleSignInConfigDiagnostic[]
+): string | null {
+  if (clientId.startsWith(REVERSED_CLIENT_ID_PREFIX)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'REVERSED_CLIENT_ID',
+      message: `${name} '${clientId}' is a reversed client ID`,
+      hint: `Use '${clientId.split('.').reverse().join('.')}' instead; the reversed form is only the iOS URL scheme`,
+    });
+    return null;
+  }
+  const match = CLIENT_ID_PATTERN.exec(clientId);
+  if (match === null) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'MALFORMED_CLIENT_ID',
+      message: `${name} '${clientId}' does not look like an OAuth client ID`,
+      hint: 'Copy the Client ID of the OAuth client from Google Cloud Console > APIs & Services > Credentials; it ends in .apps.googleusercontent.com',
+    });
+    return null;
+  }
+  return match[1] ?? null;
+}
+
+function checkScopes(
+  scopes: unknown,
+  diagnostics: GoogleSignInConfigDiagnostic[]
+): void {
+  if (!Array.isArray(scopes)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'INVALID_SCOPE',
+      message: `scopes must be an array of strings, got ${JSON.stringify(scopes)}`,
+      hint: "Pass scopes as a list, for example ['openid', 'email', 'profile']",
+    });
+    return;
+  }
+  const seen = new Set<unknown>();
+  scopes.forEach((scope: unknown, index) => {
+    if (
+      typeof scope !== 'string' ||
+      /\s/.test(scope) ||
+      !(SCOPE_NAMES.includes(scope) || scope.startsWith('https://'))
+    ) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'INVALID_SCOPE',
+        message: `scopes[${index}] ${JSON.stringify(scope)} is not a valid OAuth scope`,
+        hint:
+          typeof scope === 'string' && /\s/.test(scope.trim())
+            ? 'Pass each scope as its own array entry'
+            : "Use 'openid', 'email', 'profile' or a full scope URL such as https://www.googleapis.com/auth/drive.readonly",
+      });
+    } else if (seen.has(scope)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'DUPLICATE_SCOPE',
+        message: `scopes lists '${scope}' more than once`,
+        hint: 'Remove the duplicate entry',
+      });
+    }
+    seen.add(scope);
+  });
+}
+
+/**
+ * Check a configuration for mistakes that `configure()` would accept but that make
+ * sign-in fail or behave unexpectedly. `configure()` runs it in development builds,
+ * rejecting on errors and logging warnings with `console.warn`.
+ */
+export function validateConfig(
+  config: GoogleSignInConfig
+): GoogleSignInConfigDiagnostic[] {
+  const diagnostics: GoogleSignInConfigDiagnostic[] = [];
+
+  let clientIds: ResolvedClientIds | null = null;
+  try {
+    clientIds = resolveClientIds(config);
+  } catch (error) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'INVALID_CLIENT_IDS',
+      message: (error as Error).message,
+      hint: 'Set webClientId to the Client ID of your "Web application" OAuth client, at the top level or in every profile',
+    });
+  }
+  if (clientIds !== null) {
+    const webProject = checkClientId(
+      clientIds.webClientId,
+      'webClientId',
+      diagnostics
+    );
+    const iosProject =
+      clientIds.iosClientId === null
+        ? null
+        : checkClientId(clientIds.iosClientId, 'iosClientId', diagnostics);
+    if (
+      webProject !== null &&
+      iosProject !== null &&
+      webProject !== iosProject
+    ) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'CLIENT_PROJECT_MISMATCH',
+        message: `iosClientId belongs to project ${iosProject}, but webClientId belongs to project ${webProject}`,
+        hint: 'Use an iOS and a web OAuth client from the same Google Cloud project',
+      });
+    }
+  }
+
+  if (config.scopes !== undefined) {
+    checkScopes(config.scopes, diagnostics);
+  }
+
+  const hostedDomain =
+    typeof config.hostedDomain === 'string'
+      ? config.hostedDomain.trim()
+      : undefined;
+  if (hostedDomain !== undefined && /[@/:\s]/.test(hostedDomain)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'INVALID_HOSTED_DOMAIN',
+      message: `hostedDomain '${hostedDomain}' is not a domain name`,
+      hint: "Pass the bare Google Workspace domain, such as 'example.com'",
+    });
+  }
+  if (
+    hostedDomain !== undefined &&
+    Array.isArray(config.scopes) &&
+    !config.scopes.some((scope) => EMAIL_SCOPES.includes(scope))
+  ) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'HOSTED_DOMAIN_WITHOUT_EMAIL_SCOPE',
+      message: "hostedDomain is set, but scopes does not include 'email'",
+      hint: "Add 'email' to scopes so ID tokens carry the account's email and domain",
+    });
+  }
+
+  if (
+    config.tokenExpiryMarginSeconds !== undefined &&
+    config.tokenExpiryMarginSeconds >= ID_TOKEN_LIFETIME_SECONDS
+  ) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'TOKEN_EXPIRY_MARGIN_TOO_LARGE',
+      message: `tokenExpiryMarginSeconds is ${config.tokenExpiryMarginSeconds}, but ID tokens only last ${ID_TOKEN_LIFETIME_SECONDS} seconds`,
+      hint: 'Lower it so getTokens() can return cached tokens; the default is 300',
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Reject with every error diagnostic and log the warnings
+ */
+export function reportConfigDiagnostics(
+  diagnostics: ReadonlyArray<GoogleSignInConfigDiagnostic>
+): void {
+  const format = ({ message, hint }: GoogleSignInConfigDiagnostic) =>
+    `${message}. ${hint}`;
+  const errors = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error'
+  );
+  if (errors.length > 0) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      errors.map(format).join('\n')
+    );
+  }
+  for (const diagnostic of diagnostics) {
+    console.warn(`GoogleSignIn: ${format(diagnostic)}`);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Error codes reported by Google Sign-In on both Android and iOS
+ */
+export const GoogleSignInErrorCode = {
+  /** `configure()` has not been called, or was cleared */
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  /** `useGoogleSignInContext()` was called outside `<GoogleSignInProvider>` */
+  NO_PROVIDER: 'NO_PROVIDER',
+  /** The native module rejected the configuration */
+  CONFIGURE_ERROR: 'CONFIGURE_ERROR',
+  /** An argument failed validation before reaching the native module */
+  INVALID_ARGUMENT: 'INVALID_ARGUMENT',
+  /** Google Play Services is missing or outdated (Android only) */
+  PLAY_SERVICES_NOT_AVAILABLE: 'PLAY_SERVICES_NOT_AVAILABLE',
+  /** No foreground activity to present UI from (Android only) */
+  NO_ACTIVITY: 'NO_ACTIVITY',
+  /** Another sign-in, token or authorization request is still running */
+  SIGN_IN_IN_PROGRESS: 'SIGN_IN_IN_PROGRESS',
+  /** Silent sign-in found no previous session */
+  SIGN_IN_REQUIRED: 'SIGN_IN_REQUIRED',
+  /** No account matched the requested account filter, or none was available without UI */
+  NO_SAVED_CREDENTIAL: 'NO_SAVED_CREDENTIAL',
+  /** The user dismissed the sign-in UI */
+  USER_CANCELLED: 'USER_CANCELLED',
+  /** The device has no Google account; the Add Account screen was opened */
+  NO_GOOGLE_ACCOUNTS: 'NO_GOOGLE_ACCOUNTS',
+  /** Generic sign-in failure */
+  SIGN_IN_ERROR: 'SIGN_IN_ERROR',
+  /** The returned credential could not be parsed (Android only) */
+  CREDENTIAL_PARSE_ERROR: 'CREDENTIAL_PARSE_ERROR',
+  /** The returned credential was not a Google ID token (Android only) */
+  UNEXPECTED_CREDENTIAL: 'UNEXPECTED_CREDENTIAL',
+  /** No user is signed in */
+  NO_USER: 'NO_USER',
+  /** An ID token could not be decoded */
+  INVALID_ID_TOKEN: 'INVALID_ID_TOKEN',
+  /** An ID token failed the checks enabled by `configure({ validateTokens: true })` */
+  ID_TOKEN_VALIDATION_FAILED: 'ID_TOKEN_VALIDATION_FAILED',
+  /** The account is not from the domain set with `configure({ hostedDomain })` */
+  HOSTED_DOMAIN_MISMATCH: 'HOSTED_DOMAIN_MISMATCH',
+  /** Fresh tokens could not be obtained */
+  TOKEN_REFRESH_ERROR: 'TOKEN_REFRESH_ERROR',
+  /** The authorization request failed */
+  AUTHORIZATION_ERROR: 'AUTHORIZATION_ERROR',
+  /** The user declined the consent screen */
+  AUTHORIZATION_DENIED: 'AUTHORIZATION_DENIED',
+  /** Signing out failed */
+  SIGN_OUT_ERROR: 'SIGN_OUT_ERROR',
+  /** Revoking the app's access failed */
+  REVOKE_ACCESS_ERROR: 'REVOKE_ACCESS_ERROR',
+  /** A pending request was aborted because `signOut()` was called */
+  SIGN_OUT_REQUESTED: 'SIGN_OUT_REQUESTED',
+  /** A pending request was aborted because the native module was torn down */
+  MODULE_DESTROYED: 'MODULE_DESTROYED',
+  /** Any failure without a recognized code; see `nativeCode` and `cause` */
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type GoogleSignInErrorCode =
+  (typeof GoogleSignInErrorCode)[keyof typeof GoogleSignInErrorCode];
+
+const KNOWN_CODES = new Set<string>(Object.values(GoogleSignInErrorCode));
+
+export class GoogleSignInError extends Error {
+  readonly code: GoogleSignInErrorCode;
+  /**
+   * The code the native module rejected with, or `null` for errors raised in JS.
+   * Differs from `code` only when the native code is not a known `GoogleSignInErrorCode`.
+   */
+  readonly nativeCode: string | null;
+  /**
+   * The original error, when this one wraps a native rejection
+   */
+  readonly cause: unknown;
+
+  constructor(
+    code: GoogleSignInErrorCode,
+    message: string,
+    options: { nativeCode?: string | null; cause?: unknown } = {}
+  ) {
+    super(message);
+    // Keep instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, GoogleSignInError.prototype);
+    this.name = 'GoogleSignInError';
+    this.code = code;
+    this.nativeCode = options.nativeCode ?? null;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Type guard for errors thrown by this library, optionally narrowed to a single code
+ */
+export function isGoogleSignInError(
+  error: unknown,
+  code?: GoogleSignInErrorCode
+): error is GoogleSignInError {
+  return (
+    error instanceof GoogleSignInError &&
+    (code === undefined || error.code === code)
+  );
+}
+
+/**
+ * Wrap a native rejection (or anything else thrown) into a GoogleSignInError
+ */
+export function toGoogleSignInError(error: unknown): GoogleSignInError {
+  if (error instanceof GoogleSignInError) {
+    return error;
+  }
+
+  const nativeCode =
+    typeof (error as { code?: unknown })?.code === 'string'
+      ? (error as { code: string }).code
+      : null;
+  const message =
+    error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const code =
+    nativeCode !== null && KNOWN_CODES.has(nativeCode)
+      ? (nativeCode as GoogleSignInErrorCode)
+      : GoogleSignInErrorCode.UNKNOWN;
+
+  return new GoogleSignInError(code, message, { nativeCode, cause: error });
+}
@@ -0,0 +1,286 @@
+import { GoogleSignInError, GoogleSignInErrorCode } from './errors';
+import type { GoogleSignInConfig } from './index';
+
+/**
+ * Client IDs read from a Firebase config file, ready to pass to `configure()`.
+ * Spread it into your own config to add scopes or other options.
+ */
+export interface GoogleSignInFileConfig extends GoogleSignInConfig {
+  webClientId: string;
+  /**
+   * The iOS client ID reversed, which iOS needs registered as a URL scheme in Info.plist.
+   * Only informational; `configure()` ignores it.
+   */
+  reversedClientId?: string;
+}
+
+export interface GoogleServicesJsonOptions {
+  /**
+   * Android package whose entry to read. Required when the file lists several apps.
+   */
+  packageName?: string;
+  /**
+   * Bundle ID of the iOS client to pick when the project has several
+   */
+  bundleId?: string;
+}
+
+export interface GoogleServiceInfoPlistOptions {
+  /**
+   * Web client ID to use when the plist has no `SERVER_CLIENT_ID`
+   */
+  webClientId?: string;
+}
+
+// `client_type` values of the OAuth clients in google-services.json
+const ANDROID_CLIENT_TYPE = 1;
+const IOS_CLIENT_TYPE = 2;
+const WEB_CLIENT_TYPE = 3;
+
+interface OAuthClient {
+  client_id: string;
+  client_type: number;
+  ios_info?: { bundle_id?: string };
+}
+
+const invalidFile = (message: string) =>
+  new GoogleSignInError(GoogleSignInErrorCode.INVALID_ARGUMENT, message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * `com.googleusercontent.apps.123-abc` for `123-abc.apps.googleusercontent.com`
+ */
+function reverseClientId(clientId: string): string {
+  return clientId.split('.').reverse().join('.');
+}
+
+function readOAuthClients(value: unknown): OAuthClient[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (client): client is OAuthClient =>
+      isRecord(client) &&
+      typeof client.client_id === 'string' &&
+      client.client_id !== '' &&
+      typeof client.client_type === 'number'
+  );
+}
+
+function packageNameOf(client: Record<string, unknown>): string | undefined {
+  const info = client.client_info;
+  if (!isRecord(info) || !isRecord(info.android_client_info)) {
+    return undefined;
+  }
+  const packageName = info.android_client_info.package_name;
+  return typeof packageName === 'string' ? packageName : undefined;
+}
+
+/**
+ * Pick the `client` entry of the Android app the config is for
+ */
+function selectAndroidClient(
+  clients: Record<string, unknown>[],
+  packageName: string | undefined
+): Record<string, unknown> {
+  const packageNames = clients.map((client) => packageNameOf(client) ?? '?');
+  if (packageName !== undefined) {
+    const index = packageNames.indexOf(packageName);
+    const client = clients[index];
+    if (client === undefined) {
+      throw invalidFile(
+        `google-services.json has no app with package name '${packageName}'; it lists ${packageNames.map((name) => `'${name}'`).join(', ')}`
+      );
+    }
+    return client;
+  }
+  const [client, ...others] = clients;
+  if (client === undefined) {
+    throw invalidFile('google-services.json lists no apps in "client"');
+  }
+  if (others.length > 0) {
+    throw invalidFile(
+      `google-services.json lists several apps; pass packageName to pick one of ${packageNames.map((name) => `'${name}'`).join(', ')}`
+    );
+  }
+  return client;
+}
+
+function selectIosClient(
+  clients: OAuthClient[],
+  bundleId: string | undefined
+): OAuthClient | undefined {
+  const iosClients = clients.filter(
+    (client) => client.client_type === IOS_CLIENT_TYPE
+  );
+  const bundleIds = iosClients.map(
+    (client) => `'${client.ios_info?.bundle_id ?? '?'}'`
+  );
+  if (bundleId !== undefined) {
+    const match = iosClients.find(
+      (client) => client.ios_info?.bundle_id === bundleId
+    );
+    if (match === undefined) {
+      throw invalidFile(
+        iosClients.length === 0
+          ? `google-services.json has no iOS OAuth client (client_type ${IOS_CLIENT_TYPE}) for bundle ID '${bundleId}'; add the iOS app to the Firebase project and download the file again`
+          : `google-services.json has no iOS OAuth client for bundle ID '${bundleId}'; it has ${bundleIds.join(', ')}`
+      );
+    }
+    return match;
+  }
+  if (iosClients.length > 1) {
+    throw invalidFile(
+      `google-services.json has several iOS OAuth clients; pass bundleId to pick one of ${bundleIds.join(', ')}`
+    );
+  }
+  return iosClients[0];
+}
+
+/**
+ * Build a config from the contents of google-services.json, as a string or parsed object.
+ *
+ * `webClientId` is the OAuth client with `client_type: 3`, which Firebase creates when
+ * Google Sign-In is enabled. `iosClientId` is read from the iOS client (`client_type: 2`)
+ * that Firebase lists for the project's iOS app, when there is one.
+ */
+export function configFromGoogleServicesJson(
+  json: string | object,
+  options: GoogleServicesJsonOptions = {}
+): GoogleSignInFileConfig {
+  let data: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.INVALID_ARGUMENT,
+        'google-services.json is not valid JSON',
+        { cause: error }
+      );
+    }
+  }
+  if (!isRecord(data) || !Array.isArray(data.client)) {
+    throw invalidFile(
+      'google-services.json must be an object with a "client" array; is this the Android config file?'
+    );
+  }
+  const client = selectAndroidClient(
+    data.client.filter(isRecord),
+    options.packageName
+  );
+  const appName = `'${packageNameOf(client) ?? 'the app'}'`;
+  const services = isRecord(client.services) ? client.services : {};
+  const appInvite = isRecord(services.appinvite_service)
+    ? services.appinvite_service
+    : {};
+  const ownClients = readOAuthClients(client.oauth_client);
+  const otherPlatformClients = readOAuthClients(
+    appInvite.other_platform_oauth_client
+  );
+
+  const webClient = [...ownClients, ...otherPlatformClients].find(
+    (oauthClient) => oauthClient.client_type === WEB_CLIENT_TYPE
+  );
+  if (webClient === undefined) {
+    const hasAndroidClient = ownClients.some(
+      (oauthClient) => oauthClient.client_type === ANDROID_CLIENT_TYPE
+    );
+    throw invalidFile(
+      `google-services.json has no web OAuth client (client_type ${WEB_CLIENT_TYPE}) for ${appName}` +
+        (hasAndroidClient
+          ? '; enable Google as a sign-in provider in the Firebase console and download the file again'
+          : '; add the SHA-1 fingerprint of your signing key, enable Google as a sign-in provider in the Firebase console and download the file again')
+    );
+  }
+
+  const iosClient = selectIosClient(otherPlatformClients, options.bundleId);
+  return {
+    webClientId: webClient.client_id,
+    ...(iosClient && {
+      iosClientId: iosClient.client_id,
+      reversedClientId: reverseClientId(iosClient.client_id),
+    }),
+  };
+}
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(text: string): string {
+  return text.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(\w+));/gi,
+    (entity, hex?: string, decimal?: string, name?: string) => {
+      if (hex !== undefined) {
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      if (decimal !== undefined) {
+        return String.fromCodePoint(parseInt(decimal, 10));
+      }
+      return XML_ENTITIES[name ?? ''] ?? entity;
+    }
+  );
+}
+
+/**
+ * Read the string values of an XML property list. GoogleService-Info.plist is a flat
+ * dict of strings and booleans, so there is no need for a full plist parser.
+ */
+function readPlistStrings(xml: string): Map<string, string> {
+  const dict = /<plist[^>]*>\s*<dict>([\s\S]*)<\/dict>\s*<\/plist>/.exec(xml);
+  if (dict === null) {
+    throw invalidFile(
+      xml.startsWith('bplist')
+        ? 'GoogleService-Info.plist is a binary plist; convert it with `plutil -convert xml1` first'
+        : 'GoogleService-Info.plist must be an XML property list with a top-level <dict>'
+    );
+  }
+  const strings = new Map<string, string>();
+  const entry =
+    /<key>([^<]*)<\/key>\s*(?:<string>([^<]*)<\/string>|<string\/>)?/g;
+  for (const [, key, value] of (dict[1] ?? '').matchAll(entry)) {
+    if (key !== undefined && value !== undefined) {
+      strings.set(decodeXmlText(key), decodeXmlText(value).trim());
+    }
+  }
+  return strings;
+}
+
+/**
+ * Build a config from the XML contents of GoogleService-Info.plist.
+ *
+ * `iosClientId` and `reversedClientId` come from `CLIENT_ID` and `REVERSED_CLIENT_ID`.
+ * The web client ID comes from `SERVER_CLIENT_ID`, which older plists lack; pass
+ * `webClientId` for those, for example from `configFromGoogleServicesJson()`.
+ */
+export function configFromGoogleServiceInfoPlist(
+  xml: string,
+  options: GoogleServiceInfoPlistOptions = {}
+): GoogleSignInFileConfig {
+  const strings = readPlistStrings(xml.trimStart());
+  const iosClientId = strings.get('CLIENT_ID');
+  if (!iosClientId) {
+    throw invalidFile(
+      'GoogleService-Info.plist has no CLIENT_ID; enable Google as a sign-in provider in the Firebase console and download the file again'
+    );
+  }
+  const webClientId = strings.get('SERVER_CLIENT_ID') || options.webClientId;
+  if (!webClientId) {
+    throw invalidFile(
+      `GoogleService-Info.plist has no SERVER_CLIENT_ID; pass the web client ID (client_type ${WEB_CLIENT_TYPE} in google-services.json) as webClientId`
+    );
+  }
+  return {
+    webClientId,
+    iosClientId,
+    reversedClientId:
+      strings.get('REVERSED_CLIENT_ID') || reverseClientId(iosClientId),
+  };
+}
@@ -0,0 +1,166 @@
+import { useSyncExternalStore } from 'react';
+import {
+  GoogleSignInErrorCode,
+  isGoogleSignInError,
+  toGoogleSignInError,
+  type GoogleSignInError,
+} from './errors';
+import {
+  GoogleSignInModule,
+  type GoogleSignInGetTokensOptions,
+  type GoogleSignInResult,
+  type GoogleSignInSignInOptions,
+  type GoogleSignInSignOutOptions,
+  type GoogleSignInTokens,
+  type GoogleSignInUser,
+} from './index';
+
+/**
+ * - `'loading'`: a `signIn`, `signOut` or `getTokens` call from a hook is in flight
+ * - `'signedIn'` / `'signedOut'`: whether `GoogleSignInModule` has a current user
+ */
+export type GoogleSignInStatus = 'loading' | 'signedIn' | 'signedOut';
+
+type GoogleSignInState = {
+  user: GoogleSignInUser | null;
+  status: GoogleSignInStatus;
+  error: GoogleSignInError | null;
+};
+
+export type UseGoogleSignInResult = GoogleSignInState & {
+  /**
+   * Resolves `null` when sign-in fails; the failure is reported through `error`.
+   * Cancelling is not treated as an error.
+   */
+  signIn: (
+    options?: GoogleSignInSignInOptions
+  ) => Promise<GoogleSignInResult | null>;
+  signOut: (options?: GoogleSignInSignOutOptions) => Promise<void>;
+  /**
+   * Resolves `null` when no tokens could be obtained; the failure is reported through `error`
+   */
+  getTokens: (
+    options?: GoogleSignInGetTokensOptions
+  ) => Promise<GoogleSignInTokens | null>;
+};
+
+// State shared by every mounted hook, so all components see the same status and error
+let pendingCount = 0;
+let lastError: GoogleSignInError | null = null;
+let snapshot: GoogleSignInState = {
+  user: null,
+  status: 'signedOut',
+  error: null,
+};
+const listeners = new Set<() => void>();
+let unsubscribeFromModule: (() => void) | null = null;
+
+function emitChange(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!unsubscribeFromModule) {
+    unsubscribeFromModule = GoogleSignInModule._subscribe(emitChange);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && unsubscribeFromModule) {
+      unsubscribeFromModule();
+      unsubscribeFromModule = null;
+    }
+  };
+}
+
+/**
+ * Return the cached snapshot unless one of its inputs changed,
+ * as `useSyncExternalStore` requires
+ */
+function getSnapshot(): GoogleSignInState {
+  const user = GoogleSignInModule.getCurrentUser();
+  const status: GoogleSignInStatus =
+    pendingCount > 0 ? 'loading' : user ? 'signedIn' : 'signedOut';
+  if (
+    snapshot.user !== user ||
+    snapshot.status !== status ||
+    snapshot.error !== lastError
+  ) {
+    snapshot = { user, status, error: lastError };
+  }
+  return snapshot;
+}
+
+function getUserSnapshot(): GoogleSignInUser | null {
+  return GoogleSignInModule.getCurrentUser();
+}
+
+function getSigningInSnapshot(): boolean {
+  return GoogleSignInModule._isSigningIn();
+}
+
+/**
+ * Run a module call while reporting `'loading'`, capturing its error instead of throwing
+ */
+export async function track<T>(call: () => Promise<T>): Promise<T | null> {
+  pendingCount++;
+  lastError = null;
+  emitChange();
+  try {
+    return await call();
+  } catch (error) {
+    const signInError = toGoogleSignInError(error);
+    if (
+      !isGoogleSignInError(signInError, GoogleSignInErrorCode.USER_CANCELLED)
+    ) {
+      lastError = signInError;
+    }
+    return null;
+  } finally {
+    pendingCount--;
+    emitChange();
+  }
+}
+
+const signIn = (options?: GoogleSignInSignInOptions) =>
+  track(() => GoogleSignInModule.signIn(options));
+
+const signOut = async (options?: GoogleSignInSignOutOptions) => {
+  await track(() => GoogleSignInModule.signOut(options));
+};
+
+const getTokens = (options?: GoogleSignInGetTokensOptions) =>
+  track(() => GoogleSignInModule.getTokens(options));
+
+/**
+ * Sign-in state and actions backed by `GoogleSignInModule`.
+ * Every component using this hook shares the same state.
+ */
+export function useGoogleSignIn(): UseGoogleSignInResult {
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+  return { ...state, signIn, signOut, getTokens };
+}
+
+/**
+ * The signed-in user, or `null`. Re-renders only when the user changes.
+ */
+export function useGoogleUser(): GoogleSignInUser | null {
+  return useSyncExternalStore(subscribe, getUserSnapshot);
+}
+
+/**
+ * Whether a sign-in started anywhere in the app is still in progress
+ */
+export function useIsSigningIn(): boolean {
+  return useSyncExternalStore(subscribe, getSigningInSnapshot);
+}
+
+/**
+ * INTERNAL: Clear the shared hook state (for testing only)
+ * @internal
+ */
+export function _resetHooksForTesting(): void {
+  pendingCount = 0;
+  lastError = null;
+  emitChange();
+}
@@ -1,13 +1,184 @@
-import GoogleSigninModern from './NativeGoogleSigninModern';
+import GoogleSigninModern, {
+  type GoogleSignInResult as NativeGoogleSignInResult,
+} from './NativeGoogleSigninModern';
+import {
+  TokenRefreshScheduler,
+  type GoogleSignInAutoRefreshOptions,
+} from './autoRefresh';
+import {
+  reportConfigDiagnostics,
+  resolveClientIds,
+  validateConfig,
+  type GoogleSignInProfile,
+} from './config';
+import {
+  GoogleSignInError,
+  GoogleSignInErrorCode,
+  isGoogleSignInError,
+  toGoogleSignInError,
+} from './errors';
+import {
+  decodeIdToken,
+  validateIdToken,
+  type GoogleIdTokenClaims,
+} from './jwt';
+import {
+  parseSession,
+  parseTokens,
+  serializeSession,
+  serializeTokens,
+  SESSION_KEY,
+  TOKENS_KEY,
+} from './session';
+import {
+  createInMemoryStorage,
+  isStorage,
+  type GoogleSignInStorage,
+} from './storage';
+import {
+  isNoSavedCredentialResponse,
+  toSignInResponse,
+  type GoogleSignInResponse,
+} from './responses';
+
+export { createNonce, type GoogleSignInNonce } from './nonce';
+export { type GoogleSignInAutoRefreshOptions } from './autoRefresh';
+export { createInMemoryStorage, type GoogleSignInStorage } from './storage';
+export {
+  validateConfig,
+  type GoogleSignInConfigDiagnostic,
+  type GoogleSignInDiagnosticCode,
+  type GoogleSignInDiagnosticSeverity,
+  type GoogleSignInProfile,
+} from './config';
+export {
+  configFromGoogleServiceInfoPlist,
+  configFromGoogleServicesJson,
+  type GoogleServiceInfoPlistOptions,
+  type GoogleServicesJsonOptions,
+  type GoogleSignInFileConfig,
+} from './googleServices';
+export {
+  decodeIdToken,
+  validateIdToken,
+  type GoogleIdTokenClaims,
+  type GoogleIdTokenValidationFailure,
+  type GoogleIdTokenValidationFailureCode,
+  type GoogleIdTokenValidationOptions,
+  type GoogleIdTokenValidationResult,
+} from './jwt';
+export {
+  GoogleSignInError,
+  GoogleSignInErrorCode,
+  isGoogleSignInError,
+} from './errors';
+export {
+  isCancelledResponse,
+  isNoSavedCredentialResponse,
+  isSuccessResponse,
+  type GoogleSignInCancelledResponse,
+  type GoogleSignInNoSavedCredentialResponse,
+  type GoogleSignInResponse,
+  type GoogleSignInSuccessResponse,
+} from './responses';
+export {
+  useGoogleSignIn,
+  useGoogleUser,
+  type GoogleSignInStatus,
+  type UseGoogleSignInResult,
+} from './hooks';
+export {
+  GoogleSignInProvider,
+  useGoogleSignInContext,
+  type GoogleSignInContextValue,
+  type GoogleSignInProviderProps,
+} from './provider';
+export {
+  GoogleSigninButton,
+  type GoogleSigninButtonLabel,
+  type GoogleSigninButtonProps,
+  type GoogleSigninButtonShape,
+  type GoogleSigninButtonTheme,
+} from './button';
 
 export interface GoogleSignInResult {
   idToken: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-    photo: string | null;
-  };
+  /**
+   * One-time code your backend can exchange for a refresh token.
+   * Only present when `offlineAccess` was requested in `configure()`.
+   */
+  serverAuthCode: string | null;
+  /**
+   * The nonce passed to the sign-in call, echoed back so it can be matched against
+   * the `nonce` claim of `idToken`. `null` when no nonce was used.
+   */
+  nonce: string | null;
+  /**
+   * Decoded payload of `idToken`. Not signature-checked; verify the token on your backend.
+   */
+  claims: GoogleIdTokenClaims;
+  user: GoogleSignInUser;
+}
+
+export interface GoogleSignInUser {
+  id: string;
+  name: string | null;
+  email: string;
+  photo: string | null;
+}
+
+export type GoogleSignInPresentation = 'bottomSheet' | 'button';
+
+export interface GoogleSignInOptions {
+  /**
+   * Value embedded in the ID token's `nonce` claim so your backend can reject replayed tokens.
+   * Use `createNonce()` to generate one.
+   */
+  nonce?: string;
+  /**
+   * How Android presents the account picker:
+   * - `'bottomSheet'` (default): the One Tap bottom sheet, for sign-in the app starts itself
+   * - `'button'`: the full "Sign in with Google" flow, for when the user tapped a sign-in button
+   *
+   * iOS shows the standard Google sign-in screen for both.
+   */
+  presentation?: GoogleSignInPresentation;
+  /**
+   * Email of the account to preselect, for example when asking the signed-in user
+   * to re-authenticate. iOS passes it as the sign-in `hint`. Ignored on Android,
+   * where Credential Manager has no account hint.
+   */
+  loginHint?: string;
+  /**
+   * Android only: sign in without showing the account picker when exactly one
+   * authorized account is available and the user has not signed out. For returning users.
+   */
+  autoSelect?: boolean;
+  /**
+   * Android only: fail with `NO_SAVED_CREDENTIAL` instead of showing UI when no account
+   * is available on the device right away
+   */
+  preferImmediatelyAvailableCredentials?: boolean;
+}
+
+/**
+ * Which accounts an interactive sign-in offers:
+ * - `'authorizedOnly'`: accounts that already authorized this app
+ * - `'all'`: every Google account on the device
+ * - `'authorizedThenAll'` (default): authorized accounts, then every account when there are none
+ *
+ * iOS has no authorized-accounts picker. There `'authorizedOnly'` rejects with
+ * `NO_SAVED_CREDENTIAL` without a previous sign-in, and otherwise restores it and
+ * preselects its account in the standard sign-in screen, where the user can still
+ * choose another account.
+ */
+export type GoogleSignInAccountFilter =
+  | 'authorizedOnly'
+  | 'all'
+  | 'authorizedThenAll';
+
+export interface GoogleSignInSignInOptions extends GoogleSignInOptions {
+  accountFilter?: GoogleSignInAccountFilter;
 }
 
 export interface GoogleSignInTokens {
@@ -15,8 +186,358 @@ export interface GoogleSignInTokens {
   accessToken: string;
 }
 
+export interface GoogleSignInGetTokensOptions {
+  /**
+   * Skip the cache and fetch new tokens from the native module
+   */
+  forceRefresh?: boolean;
+  /**
+   * Whether the native module may show UI to get tokens. Defaults to `true`. With `false`,
+   * Android auto-selects the account, never shows the consent screen and rejects with
+   * `NO_SAVED_CREDENTIAL` when no account is available. It still shows the account
+   * picker when several accounts authorized the app.
+   */
+  interactive?: boolean;
+}
+
+export interface GoogleSignInSignOutOptions {
+  /**
+   * Also revoke the app's access, as `revokeAccess()` does
+   */
+  revoke?: boolean;
+}
+
+/**
+ * Payload of each event, keyed by event name
+ */
+export interface GoogleSignInEventMap {
+  /**
+   * New tokens were fetched, by `getTokens()` or by auto-refresh
+   */
+  tokensRefreshed: GoogleSignInTokens;
+  /**
+   * A sign-in succeeded, the user signed out, or the session turned out to be revoked
+   */
+  authStateChanged: GoogleSignInUser | null;
+}
+
+export type GoogleSignInEvent = keyof GoogleSignInEventMap;
+
+export interface GoogleSignInAuthorizationOptions {
+  /**
+   * Additional OAuth scopes to request from the signed-in user
+   */
+  scopes: string[];
+  /**
+   * Request a server auth code for the newly granted scopes
+   */
+  offlineAccess?: boolean;
+}
+
+export interface GoogleSignInAuthorizationResult {
+  accessToken: string;
+  grantedScopes: string[];
+  serverAuthCode: string | null;
+}
+
 export interface GoogleSignInConfig {
-  webClientId: string;
+  /**
+   * Client ID of the "Web application" OAuth client. Android passes it to Credential Manager
+   * as the server client ID, iOS as `GIDConfiguration`'s `serverClientID`, and it is the
+   * audience of the ID tokens both return. Required, here or in the selected profile.
+   */
+  webClientId?: string;
+  /**
+   * Client ID of the iOS OAuth client, used as `GIDConfiguration`'s `clientID`.
+   * Falls back to `GIDClientID` in Info.plist. Ignored on Android.
+   */
+  iosClientId?: string;
+  /**
+   * Client IDs per environment, for example `{ dev: {...}, prod: {...} }`. The profile
+   * named by `profile` overrides the top-level `webClientId` and `iosClientId`.
+   */
+  profiles?: Readonly<Record<string, GoogleSignInProfile>>;
+  /**
+   * Which of `profiles` to use. Required when `profiles` is set.
+   */
+  profile?: string;
+  /**
+   * OAuth scopes to request. Defaults to `openid email profile` when omitted.
+   */
+  scopes?: string[];
+  /**
+   * Request offline access so your backend can obtain a refresh token
+   */
+  offlineAccess?: boolean;
+  /**
+   * Check every ID token returned by sign-in and `getTokens()` with `validateIdToken()`,
+   * using `webClientId` as the audience, and reject with `ID_TOKEN_VALIDATION_FAILED`
+   * when a check fails
+   */
+  validateTokens?: boolean;
+  /**
+   * `getTokens()` returns cached tokens until the ID token has less than this many seconds
+   * left before it expires. Defaults to 300.
+   */
+  tokenExpiryMarginSeconds?: number;
+  /**
+   * Only allow accounts from this Google Workspace domain. Passed to the native SDKs as a hint,
+   * and enforced by checking the ID token's `hd` claim: sign-ins and token refreshes from any
+   * other account reject with `HOSTED_DOMAIN_MISMATCH` and sign that account out.
+   */
+  hostedDomain?: string;
+  /**
+   * Where to keep non-sensitive data, such as the signed-in user's profile.
+   * Defaults to in-memory storage.
+   */
+  storage?: GoogleSignInStorage;
+  /**
+   * Where to keep tokens. Use a Keychain/Keystore-backed store to reuse them across launches.
+   * Defaults to in-memory storage, even when `storage` is set.
+   */
+  sensitiveStorage?: GoogleSignInStorage;
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+const DEFAULT_TOKEN_EXPIRY_MARGIN_SECONDS = 300;
+
+const PRESENTATIONS: ReadonlyArray<string> = ['bottomSheet', 'button'];
+
+const ACCOUNT_FILTERS: ReadonlyArray<string> = [
+  'authorizedOnly',
+  'all',
+  'authorizedThenAll',
+];
+
+/**
+ * Normalize optional properties of a native sign-in result to ensure they are never undefined,
+ * and decode the ID token's claims
+ */
+function normalizeSignInResult(
+  nativeResult: NativeGoogleSignInResult
+): GoogleSignInResult {
+  const claims = decodeIdToken(nativeResult.idToken);
+  return {
+    idToken: nativeResult.idToken,
+    serverAuthCode: nativeResult.serverAuthCode ?? null,
+    nonce: nativeResult.nonce ?? null,
+    claims,
+    user: {
+      // The `sub` claim is the stable account ID on both platforms and every sign-in path
+      id: claims.sub,
+      name: nativeResult.user.name ?? null,
+      email: nativeResult.user.email,
+      photo: nativeResult.user.photo ?? null,
+    },
+  };
+}
+
+type NativeSignInMethod = 'signIn' | 'signInSilently' | 'presentExplicitSignIn';
+
+type SignInRunner = (
+  method: NativeSignInMethod,
+  options: GoogleSignInOptions,
+  accountFilter: GoogleSignInAccountFilter | null
+) => Promise<GoogleSignInResult>;
+
+/**
+ * Convert public sign-in options to the native shape, rejecting an empty nonce or
+ * login hint, an unknown presentation and an unknown account filter
+ */
+function toNativeSignInOptions(
+  options: GoogleSignInOptions,
+  accountFilter: GoogleSignInAccountFilter | null
+) {
+  if (options.nonce !== undefined && options.nonce.length === 0) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      'nonce cannot be an empty string'
+    );
+  }
+  if (
+    options.presentation !== undefined &&
+    !PRESENTATIONS.includes(options.presentation)
+  ) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      `presentation must be 'bottomSheet' or 'button', got '${String(options.presentation)}'`
+    );
+  }
+  if (options.loginHint !== undefined && options.loginHint.trim() === '') {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      'loginHint cannot be empty'
+    );
+  }
+  if (accountFilter !== null && !ACCOUNT_FILTERS.includes(accountFilter)) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      `accountFilter must be 'authorizedOnly', 'all' or 'authorizedThenAll', got '${String(accountFilter)}'`
+    );
+  }
+  return {
+    nonce: options.nonce ?? null,
+    accountFilter,
+    presentation: options.presentation ?? null,
+    loginHint: options.loginHint?.trim() ?? null,
+    autoSelect: options.autoSelect ?? null,
+    preferImmediatelyAvailableCredentials:
+      options.preferImmediatelyAvailableCredentials ?? null,
+  };
+}
+
+/**
+ * Throw `ID_TOKEN_VALIDATION_FAILED` listing every failed check
+ */
+function assertValidIdToken(
+  idToken: string,
+  audience: string,
+  nonce: string | null
+): void {
+  const { valid, failures } = validateIdToken(idToken, {
+    audience,
+    nonce: nonce ?? undefined,
+  });
+  if (!valid) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.ID_TOKEN_VALIDATION_FAILED,
+      `ID token failed validation: ${failures
+        .map((failure) => `${failure.code} (${failure.message})`)
+        .join(', ')}`
+    );
+  }
+}
+
+/**
+ * Claims of the ID token, or `null` when it cannot be decoded
+ */
+function tryDecodeIdToken(idToken: string): GoogleIdTokenClaims | null {
+  try {
+    return decodeIdToken(idToken);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of the ID token in seconds since the epoch, or `null` when it cannot be decoded
+ */
+function tokenExpiry(tokens: GoogleSignInTokens): number | null {
+  return tryDecodeIdToken(tokens.idToken)?.exp ?? null;
+}
+
+/**
+ * Read a storage item, treating a failing store like an empty one
+ */
+async function readStorage(
+  storage: GoogleSignInStorage,
+  key: string
+): Promise<string | null> {
+  try {
+    return await storage.getItem(key);
+  } catch (error) {
+    console.warn(`GoogleSignIn: could not read '${key}' from storage`, error);
+    return null;
+  }
+}
+
+/**
+ * Whether a native rejection means the platform no longer has a session for the user,
+ * for example because they revoked access from their Google account settings
+ */
+function isSessionLostError(error: unknown): boolean {
+  return (
+    isGoogleSignInError(error, GoogleSignInErrorCode.NO_USER) ||
+    isGoogleSignInError(error, GoogleSignInErrorCode.SIGN_IN_REQUIRED)
+  );
+}
+
+/**
+ * Await a native call, rethrowing any rejection as a GoogleSignInError
+ */
+async function callNative<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw toGoogleSignInError(error);
+  }
+}
+
+/**
+ * Version 2 of the sign-in API, reached through `GoogleSignIn.v2`.
+ * Cancellation and missing sessions resolve as responses instead of rejecting.
+ */
+class GoogleSignInV2 {
+  constructor(private readonly runSignIn: SignInRunner) {}
+
+  /**
+   * Sign in a returning user with an account that has already authorized this app.
+   * Resolves `{ type: 'noSavedCredential' }` when there is none; follow up with
+   * `createAccount()`.
+   */
+  async signIn(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResponse> {
+    return toSignInResponse(() =>
+      this.runSignIn('signIn', options, 'authorizedOnly')
+    );
+  }
+
+  /**
+   * Offer every Google account on the device, for sign-up. Resolves
+   * `{ type: 'noSavedCredential' }` when the device has no usable account;
+   * follow up with `presentExplicitSignIn()`.
+   */
+  async createAccount(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResponse> {
+    return toSignInResponse(() => this.runSignIn('signIn', options, 'all'));
+  }
+
+  /**
+   * Open the full Google sign-in UI, which also lets the user add an account.
+   * Use it when the bottom sheet is unavailable, for example after the user
+   * dismissed it too often and Android applies a cooldown.
+   */
+  async presentExplicitSignIn(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResponse> {
+    return toSignInResponse(() =>
+      this.runSignIn('presentExplicitSignIn', options, null)
+    );
+  }
+
+  /**
+   * Chain `signIn()`, `createAccount()` and `presentExplicitSignIn()`, moving to the next
+   * step only when the previous one found no credential. A cancellation ends the chain,
+   * so the user is not shown another prompt right after dismissing one.
+   */
+  async signInWithFallback(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResponse> {
+    const signInResponse = await this.signIn(options);
+    if (!isNoSavedCredentialResponse(signInResponse)) {
+      return signInResponse;
+    }
+    const createAccountResponse = await this.createAccount(options);
+    if (!isNoSavedCredentialResponse(createAccountResponse)) {
+      return createAccountResponse;
+    }
+    return this.presentExplicitSignIn(options);
+  }
+
+  /**
+   * Restore the previous session without UI. Resolves `{ type: 'noSavedCredential' }`
+   * when there is none.
+   */
+  async signInSilently(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResponse> {
+    return toSignInResponse(() =>
+      this.runSignIn('signInSilently', options, null)
+    );
+  }
 }
 
 /**
@@ -25,6 +546,57 @@ export interface GoogleSignInConfig {
  */
 class GoogleSignIn {
   private isConfigured = false;
+  /**
+   * Audience to check ID tokens against, set when `validateTokens` is enabled
+   */
+  private tokenAudience: string | null = null;
+  private tokenExpiryMarginSeconds = DEFAULT_TOKEN_EXPIRY_MARGIN_SECONDS;
+  /**
+   * Lowercased `hostedDomain` from the configuration
+   */
+  private hostedDomain: string | null = null;
+  private cachedTokens: { tokens: GoogleSignInTokens; exp: number } | null =
+    null;
+  /**
+   * Native `getTokens()` call shared by every caller that missed the cache
+   */
+  private tokenRefresh: Promise<GoogleSignInTokens> | null = null;
+  /**
+   * Whether `tokenRefresh` may show UI
+   */
+  private tokenRefreshInteractive = true;
+  /**
+   * `exp` of the latest ID token from a sign-in or refresh, used to schedule auto-refresh
+   */
+  private idTokenExpiry: number | null = null;
+  private readonly autoRefresh = new TokenRefreshScheduler(
+    () => this.idTokenExpiry,
+    // Keeps a timer from opening the consent screen or the add-account flow
+    () => this.getTokens({ forceRefresh: true, interactive: false })
+  );
+  private readonly eventListeners: {
+    [E in GoogleSignInEvent]: Set<(payload: GoogleSignInEventMap[E]) => void>;
+  } = { tokensRefreshed: new Set(), authStateChanged: new Set() };
+  private currentUser: GoogleSignInUser | null = null;
+  private signInsInProgress = 0;
+  /**
+   * Pending native session writes, chained so they land in call order
+   */
+  private sessionWrite: Promise<void> = Promise.resolve();
+  private readonly stateListeners = new Set<() => void>();
+  /**
+   * Backs `storage` and `sensitiveStorage` when they are not configured
+   */
+  private memoryStorage = createInMemoryStorage();
+  private storage = this.memoryStorage;
+  private sensitiveStorage = this.memoryStorage;
+
+  /**
+   * Opt-in response-based API, sharing configuration and state with this instance
+   */
+  readonly v2 = new GoogleSignInV2((method, options, accountFilter) =>
+    this.runSignIn(method, options, accountFilter)
+  );
 
   /**
    * INTERNAL: Reset configuration state (for testing only)
@@ -32,99 +604,591 @@ class GoogleSignIn {
    */
   _resetForTesting(): void {
     this.isConfigured = false;
+    this.tokenAudience = null;
+    this.tokenExpiryMarginSeconds = DEFAULT_TOKEN_EXPIRY_MARGIN_SECONDS;
+    this.hostedDomain = null;
+    this.clearTokenCache();
+    this.autoRefresh.disable();
+    this.idTokenExpiry = null;
+    this.eventListeners.tokensRefreshed.clear();
+    this.eventListeners.authStateChanged.clear();
+    this.signInsInProgress = 0;
+    this.sessionWrite = Promise.resolve();
+    this.memoryStorage = createInMemoryStorage();
+    this.storage = this.memoryStorage;
+    this.sensitiveStorage = this.memoryStorage;
+    this.setCurrentUser(null);
+  }
+
+  /**
+   * The signed-in user, or `null`. Restored from the persisted session by `configure()`,
+   * so it is available right after launch without a native round trip.
+   */
+  getCurrentUser(): GoogleSignInUser | null {
+    return this.currentUser;
+  }
+
+  /**
+   * INTERNAL: Whether any sign-in call is still waiting for the native module
+   * @internal
+   */
+  _isSigningIn(): boolean {
+    return this.signInsInProgress > 0;
+  }
+
+  /**
+   * INTERNAL: Get notified whenever the current user or the sign-in progress changes.
+   * Used by the React hooks.
+   * @internal
+   */
+  _subscribe(listener: () => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private notifyStateListeners(): void {
+    this.stateListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Drop cached tokens and detach any refresh in flight, so its result is not cached
+   */
+  private clearTokenCache(): void {
+    this.cachedTokens = null;
+    this.tokenRefresh = null;
+  }
+
+  private setIdTokenExpiry(exp: number | null): void {
+    this.idTokenExpiry = exp;
+    this.autoRefresh.expiryChanged();
+  }
+
+  private emit<E extends GoogleSignInEvent>(
+    event: E,
+    payload: GoogleSignInEventMap[E]
+  ): void {
+    this.eventListeners[event].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        // A failing listener must not stop the others or the refresh that triggered it
+        console.error(`GoogleSignIn: '${event}' listener threw`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen for an event. Returns a function that removes the listener.
+   */
+  addListener<E extends GoogleSignInEvent>(
+    event: E,
+    listener: (payload: GoogleSignInEventMap[E]) => void
+  ): () => void {
+    const listeners = this.eventListeners[event] as Set<
+      (payload: GoogleSignInEventMap[E]) => void
+    >;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Call `listener` with the user after every successful sign-in, and with `null` after
+   * `signOut()` or when a token refresh or silent sign-in finds the session revoked.
+   * Returns a function that removes the listener.
+   */
+  onAuthStateChanged(
+    listener: (user: GoogleSignInUser | null) => void
+  ): () => void {
+    return this.addListener('authStateChanged', listener);
+  }
+
+  /**
+   * Refresh tokens in the background shortly before the ID token expires, emitting
+   * `tokensRefreshed` with the new tokens. Failed refreshes are retried with exponential
+   * backoff. Timers pause while the app is in the background, and a refresh that came due
+   * meanwhile runs as soon as it returns to the foreground.
+   *
+   * On Android it does nothing unless `runOnAndroid` is set, since the refresh can show
+   * the account picker there. Calling it again updates the options.
+   */
+  enableAutoRefresh(options: GoogleSignInAutoRefreshOptions = {}): void {
+    this.autoRefresh.enable(options);
+  }
+
+  disableAutoRefresh(): void {
+    this.autoRefresh.disable();
   }
 
   /**
-   * Configure Google Sign-In with Web Client ID
+   * Save the current user and token expiry natively and in `storage`, and the cached tokens
+   * in `sensitiveStorage`, deleting whatever is gone. A failed write is logged rather than
+   * failing the sign-in or sign-out that caused it.
+   */
+  private persistSession(): Promise<void> {
+    const { storage, sensitiveStorage } = this;
+    const session =
+      this.currentUser === null
+        ? null
+        : serializeSession({
+            user: this.currentUser,
+            idTokenExpiresAt: this.idTokenExpiry,
+          });
+    const tokens =
+      this.currentUser === null || this.cachedTokens === null
+        ? null
+        : serializeTokens(this.cachedTokens.tokens);
+    this.sessionWrite = this.sessionWrite
+      .then(() =>
+        Promise.all([
+          GoogleSigninModern.writeSession(session),
+          session === null
+            ? storage.removeItem(SESSION_KEY)
+            : storage.setItem(SESSION_KEY, session),
+          tokens === null
+            ? sensitiveStorage.removeItem(TOKENS_KEY)
+            : sensitiveStorage.setItem(TOKENS_KEY, tokens),
+        ])
+      )
+      .then(
+        () => {},
+        (error: unknown) => {
+          console.warn('GoogleSignIn: could not persist the session', error);
+        }
+      );
+    return this.sessionWrite;
+  }
+
+  /**
+   * Load the persisted session, preferring the copy in `storage`, and the tokens cached for
+   * it. Drops the session when the native SDK no longer has one.
+   */
+  private async restoreSession(): Promise<void> {
+    if (this.currentUser !== null) {
+      // Reconfigured while signed in: bring newly configured stores up to date
+      await this.persistSession();
+      return;
+    }
+    const stored = parseSession(await readStorage(this.storage, SESSION_KEY));
+    const session =
+      stored ??
+      parseSession(await callNative(() => GoogleSigninModern.readSession()));
+    if (session === null) {
+      return;
+    }
+    if (!(await callNative(() => GoogleSigninModern.isSignedIn()))) {
+      await this.persistSession();
+      return;
+    }
+    const tokens = parseTokens(
+      await readStorage(this.sensitiveStorage, TOKENS_KEY)
+    );
+    const claims = tokens === null ? null : tryDecodeIdToken(tokens.idToken);
+    if (tokens !== null && claims !== null && claims.sub === session.user.id) {
+      this.cachedTokens = { tokens, exp: claims.exp };
+    }
+    this.setIdTokenExpiry(claims?.exp ?? session.idTokenExpiresAt);
+    this.setCurrentUser(session.user);
+  }
+
+  /**
+   * Forget the signed-in user and everything cached for them
+   */
+  private async endSession(): Promise<void> {
+    this.clearTokenCache();
+    this.setIdTokenExpiry(null);
+    this.setCurrentUser(null);
+    this.emit('authStateChanged', null);
+    await this.persistSession();
+  }
+
+  /**
+   * Await a native call that requires configuration. If the native module reports it is not
+   * configured, stop treating this instance as configured too, so later calls fail fast
+   * until `configure()` is called again.
+   */
+  private async callConfiguredNative<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await callNative(call);
+    } catch (error) {
+      if (isGoogleSignInError(error, GoogleSignInErrorCode.NOT_CONFIGURED)) {
+        this.isConfigured = false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reject an ID token from outside the configured Workspace domain. The native hint does not
+   * cover every flow, so the account is signed out natively and any local session ended.
+   */
+  private async enforceHostedDomain(
+    claims: GoogleIdTokenClaims
+  ): Promise<void> {
+    const hostedDomain = this.hostedDomain;
+    if (hostedDomain === null || claims.hd?.toLowerCase() === hostedDomain) {
+      return;
+    }
+    // Best effort: the mismatch is what the caller needs to hear about
+    await GoogleSigninModern.signOut().catch(() => {});
+    if (this.currentUser !== null) {
+      await this.endSession();
+    } else {
+      this.clearTokenCache();
+    }
+    const account = claims.email ?? claims.sub;
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.HOSTED_DOMAIN_MISMATCH,
+      claims.hd === undefined
+        ? `${account} is not a Google Workspace account; only accounts from '${hostedDomain}' are allowed`
+        : `${account} belongs to '${claims.hd}'; only accounts from '${hostedDomain}' are allowed`
+    );
+  }
+
+  /**
+   * End the session when a native call reports it gone while a user is signed in
+   */
+  private async detectRevocation(error: unknown): Promise<void> {
+    if (this.currentUser !== null && isSessionLostError(error)) {
+      await this.endSession();
+    }
+  }
+
+  private setCurrentUser(user: GoogleSignInUser | null): void {
+    if (this.currentUser === user) {
+      return;
+    }
+    this.currentUser = user;
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Configure Google Sign-In with Web Client ID, requested scopes and offline access,
+   * and restore the session persisted by an earlier launch
    */
   async configure(config: GoogleSignInConfig): Promise<void> {
-    await GoogleSigninModern.configure(config.webClientId);
+    for (const option of ['storage', 'sensitiveStorage'] as const) {
+      if (config[option] !== undefined && !isStorage(config[option])) {
+        throw new GoogleSignInError(
+          GoogleSignInErrorCode.INVALID_ARGUMENT,
+          `${option} must implement getItem, setItem and removeItem`
+        );
+      }
+    }
+    if (
+      config.hostedDomain !== undefined &&
+      (typeof config.hostedDomain !== 'string' ||
+        config.hostedDomain.trim() === '')
+    ) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.INVALID_ARGUMENT,
+        `hostedDomain must be a non-empty domain name, got ${JSON.stringify(config.hostedDomain)}`
+      );
+    }
+    const { webClientId, iosClientId } = resolveClientIds(config);
+    const margin =
+      config.tokenExpiryMarginSeconds ?? DEFAULT_TOKEN_EXPIRY_MARGIN_SECONDS;
+    if (!Number.isFinite(margin) || margin < 0) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.INVALID_ARGUMENT,
+        `tokenExpiryMarginSeconds must be a non-negative number, got ${String(margin)}`
+      );
+    }
+    // Catch mistakes native would accept but that break sign-in later
+    if (__DEV__) {
+      reportConfigDiagnostics(validateConfig(config));
+    }
+    await callNative(() =>
+      GoogleSigninModern.configure({
+        webClientId,
+        iosClientId,
+        scopes: config.scopes ?? DEFAULT_SCOPES,
+        offlineAccess: config.offlineAccess ?? false,
+        hostedDomain: config.hostedDomain?.trim() ?? null,
+      })
+    );
     this.isConfigured = true;
+    this.tokenAudience = config.validateTokens ? webClientId : null;
+    this.tokenExpiryMarginSeconds = margin;
+    this.hostedDomain = config.hostedDomain?.trim().toLowerCase() ?? null;
+    this.storage = config.storage ?? this.memoryStorage;
+    this.sensitiveStorage = config.sensitiveStorage ?? this.memoryStorage;
+    this.clearTokenCache();
+    await this.restoreSession();
   }
 
   /**
    * Check if Google Play Services are available
    */
   async isPlayServicesAvailable(): Promise<boolean> {
-    return await GoogleSigninModern.isPlayServicesAvailable();
+    return await callNative(() => GoogleSigninModern.isPlayServicesAvailable());
   }
 
   /**
-   * Sign in with Google using native Android APIs
+   * Sign in with Google using native Android APIs.
+   * Offers accounts that already authorized this app first, then every account on the device,
+   * unless `accountFilter` says otherwise.
    */
-  async signIn(): Promise<GoogleSignInResult> {
+  async signIn(
+    options: GoogleSignInSignInOptions = {}
+  ): Promise<GoogleSignInResult> {
+    return this.runSignIn(
+      'signIn',
+      options,
+      options.accountFilter ?? 'authorizedThenAll'
+    );
+  }
+
+  /**
+   * Attempt to sign in silently (no UI shown)
+   * Useful for checking if user is already authenticated when app starts
+   */
+  async signInSilently(
+    options: GoogleSignInOptions = {}
+  ): Promise<GoogleSignInResult> {
+    return this.runSignIn('signInSilently', options, null);
+  }
+
+  private async runSignIn(
+    method: NativeSignInMethod,
+    options: GoogleSignInOptions,
+    accountFilter: GoogleSignInAccountFilter | null
+  ): Promise<GoogleSignInResult> {
     if (!this.isConfigured) {
-      throw new Error('Google Sign-In not configured. Call configure() first.');
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.NOT_CONFIGURED,
+        'Google Sign-In not configured. Call configure() first.'
+      );
+    }
+    const nativeOptions = toNativeSignInOptions(options, accountFilter);
+    this.signInsInProgress++;
+    this.notifyStateListeners();
+    try {
+      let nativeResult: NativeGoogleSignInResult;
+      try {
+        nativeResult = await this.callConfiguredNative(() =>
+          GoogleSigninModern[method](nativeOptions)
+        );
+      } catch (error) {
+        await this.detectRevocation(error);
+        throw error;
+      }
+      if (this.tokenAudience !== null) {
+        // Check the nonce the caller asked for, not the one native echoes back: iOS reports
+        // `nonce: null` for restored sessions, whose token may predate the request
+        assertValidIdToken(
+          nativeResult.idToken,
+          this.tokenAudience,
+          nativeOptions.nonce
+        );
+      }
+      const result = normalizeSignInResult(nativeResult);
+      await this.enforceHostedDomain(result.claims);
+      this.clearTokenCache();
+      this.setIdTokenExpiry(result.claims.exp);
+      this.setCurrentUser(result.user);
+      this.emit('authStateChanged', result.user);
+      await this.persistSession();
+      return result;
+    } finally {
+      this.signInsInProgress--;
+      this.notifyStateListeners();
     }
-    const nativeResult = await GoogleSigninModern.signIn();
+  }
 
-    // Normalize optional properties to ensure they are never undefined
-    return {
-      idToken: nativeResult.idToken,
-      user: {
-        id: nativeResult.user.id,
-        name: nativeResult.user.name ?? null,
-        email: nativeResult.user.email,
-        photo: nativeResult.user.photo ?? null,
-      },
-    };
+  /**
+   * Get authentication tokens for the currently signed-in user.
+   *
+   * Returns the last tokens while the ID token has more than `tokenExpiryMarginSeconds`
+   * left, and otherwise starts a new credential request flow, which may prompt the user.
+   * Concurrent calls share one request. Pass `forceRefresh: true` to skip the cache, and
+   * `interactive: false` to fail instead of asking for an account or consent.
+   */
+  async getTokens(
+    options: GoogleSignInGetTokensOptions = {}
+  ): Promise<GoogleSignInTokens> {
+    if (!this.isConfigured) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.NOT_CONFIGURED,
+        'Google Sign-In not configured. Call configure() first.'
+      );
+    }
+    const cached = this.cachedTokens;
+    if (
+      !options.forceRefresh &&
+      cached !== null &&
+      cached.exp - Date.now() / 1000 > this.tokenExpiryMarginSeconds
+    ) {
+      return cached.tokens;
+    }
+    const interactive = options.interactive ?? true;
+    if (
+      this.tokenRefresh !== null &&
+      interactive &&
+      !this.tokenRefreshInteractive
+    ) {
+      // The refresh in flight cannot show UI; start one that can if it needed to
+      return this.tokenRefresh.catch((error: unknown) => {
+        if (
+          isGoogleSignInError(error, GoogleSignInErrorCode.NO_SAVED_CREDENTIAL)
+        ) {
+          return this.getTokens({ ...options, forceRefresh: true });
+        }
+        throw error;
+      });
+    }
+    if (this.tokenRefresh === null) {
+      const refresh = this.refreshTokens(interactive)
+        .then(async (tokens) => {
+          // A sign-out or new sign-in while this was in flight detached it from the cache
+          if (this.tokenRefresh === refresh) {
+            const exp = tokenExpiry(tokens);
+            this.cachedTokens = exp === null ? null : { tokens, exp };
+            this.setIdTokenExpiry(exp);
+            this.emit('tokensRefreshed', tokens);
+            if (this.currentUser !== null) {
+              await this.persistSession();
+            }
+          }
+          return tokens;
+        })
+        .finally(() => {
+          if (this.tokenRefresh === refresh) {
+            this.tokenRefresh = null;
+          }
+        });
+      this.tokenRefresh = refresh;
+      this.tokenRefreshInteractive = interactive;
+    }
+    return this.tokenRefresh;
+  }
+
+  private async refreshTokens(
+    interactive: boolean
+  ): Promise<GoogleSignInTokens> {
+    let tokens: GoogleSignInTokens;
+    try {
+      tokens = await this.callConfiguredNative(() =>
+        GoogleSigninModern.getTokens({ interactive })
+      );
+    } catch (error) {
+      await this.detectRevocation(error);
+      throw error;
+    }
+    if (this.tokenAudience !== null) {
+      assertValidIdToken(tokens.idToken, this.tokenAudience, null);
+    }
+    if (this.hostedDomain !== null) {
+      await this.enforceHostedDomain(decodeIdToken(tokens.idToken));
+    }
+    return tokens;
   }
 
   /**
-   * Attempt to sign in silently (no UI shown)
-   * Useful for checking if user is already authenticated when app starts
+   * Request additional OAuth scopes from the signed-in user (incremental authorization).
+   *
+   * Shows a consent screen only for scopes the user has not granted yet. Rejects with
+   * `AUTHORIZATION_DENIED` if the user declines.
    */
-  async signInSilently(): Promise<GoogleSignInResult> {
+  async requestAuthorization(
+    options: GoogleSignInAuthorizationOptions
+  ): Promise<GoogleSignInAuthorizationResult> {
     if (!this.isConfigured) {
-      throw new Error('Google Sign-In not configured. Call configure() first.');
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.NOT_CONFIGURED,
+        'Google Sign-In not configured. Call configure() first.'
+      );
+    }
+    if (options.scopes.length === 0) {
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.INVALID_ARGUMENT,
+        'requestAuthorization() requires at least one scope'
+      );
+    }
+    const nativeResult = await this.callConfiguredNative(() =>
+      GoogleSigninModern.requestAuthorization({
+        scopes: options.scopes,
+        offlineAccess: options.offlineAccess ?? false,
+      })
+    );
+    // Cached access tokens predate the newly granted scopes
+    this.clearTokenCache();
+    if (this.currentUser !== null) {
+      await this.persistSession();
     }
-    const nativeResult = await GoogleSigninModern.signInSilently();
 
-    // Normalize optional properties to ensure they are never undefined
     return {
-      idToken: nativeResult.idToken,
-      user: {
-        id: nativeResult.user.id,
-        name: nativeResult.user.name ?? null,
-        email: nativeResult.user.email,
-        photo: nativeResult.user.photo ?? null,
-      },
+      accessToken: nativeResult.accessToken,
+      grantedScopes: [...nativeResult.grantedScopes],
+      serverAuthCode: nativeResult.serverAuthCode ?? null,
     };
   }
 
   /**
-   * Get fresh authentication tokens for the currently signed-in user.
-   *
-   * **Important**: This method initiates a fresh credential request flow and does NOT
-   * return cached tokens. It may prompt the user for account selection or authentication.
-   *
-   * Use this method before making authenticated API requests that require fresh tokens.
+   * Sign out from Google. With `revoke: true`, revoke the app's access first; if that fails,
+   * the user stays signed in.
    */
-  async getTokens(): Promise<GoogleSignInTokens> {
+  async signOut(options: GoogleSignInSignOutOptions = {}): Promise<void> {
     if (!this.isConfigured) {
-      throw new Error('Google Sign-In not configured. Call configure() first.');
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.NOT_CONFIGURED,
+        'Google Sign-In not configured'
+      );
+    }
+    if (options.revoke) {
+      // Revoking needs the signed-in account, so it must happen before the local sign-out
+      await this.revokeNativeAccess();
     }
-    return await GoogleSigninModern.getTokens();
+    await callNative(() => GoogleSigninModern.signOut());
+    await this.endSession();
   }
 
   /**
-   * Sign out from Google
+   * Revoke the app's access to the user's Google account and sign them out, as expected
+   * when they delete their account. Their next sign-in asks for consent again.
+   * Rejects with `NO_USER` when nobody is signed in and `REVOKE_ACCESS_ERROR` when Google
+   * could not revoke the grant.
    */
-  async signOut(): Promise<void> {
+  async revokeAccess(): Promise<void> {
     if (!this.isConfigured) {
-      throw new Error('Google Sign-In not configured');
+      throw new GoogleSignInError(
+        GoogleSignInErrorCode.NOT_CONFIGURED,
+        'Google Sign-In not configured'
+      );
+    }
+    await this.revokeNativeAccess();
+    await this.endSession();
+  }
+
+  private async revokeNativeAccess(): Promise<void> {
+    try {
+      await this.callConfiguredNative(() =>
+        GoogleSigninModern.revokeAccess(this.currentUser?.email ?? null)
+      );
+    } catch (error) {
+      await this.detectRevocation(error);
+      throw error;
     }
-    await GoogleSigninModern.signOut();
   }
 
   /**
-   * Check if user is currently signed in
+   * Check if a user is signed in: there is a persisted session and the native SDK still
+   * has it. A session the native SDK lost is cleared, as a revocation.
    */
   async isSignedIn(): Promise<boolean> {
     if (!this.isConfigured) {
       return false;
     }
-    return await GoogleSigninModern.isSignedIn();
+    const nativeSignedIn = await callNative(() =>
+      GoogleSigninModern.isSignedIn()
+    );
+    if (!nativeSignedIn && this.currentUser !== null) {
+      await this.endSession();
+    }
+    return nativeSignedIn && this.currentUser !== null;
   }
 }
 
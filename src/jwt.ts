@@ -0,0 +1,276 @@
+import { GoogleSignInError, GoogleSignInErrorCode } from './errors';
+
+/**
+ * Claims of a Google ID token. See
+ * https://developers.google.com/identity/openid-connect/openid-connect#an-id-tokens-payload
+ */
+export interface GoogleIdTokenClaims {
+  /** Issuer: `https://accounts.google.com` or `accounts.google.com` */
+  iss: string;
+  /** Audience: the web client ID the token was issued for */
+  aud: string;
+  /** Stable Google account ID. Use this, not the email, as the user's key. */
+  sub: string;
+  /** Issued-at time, in seconds since the epoch */
+  iat: number;
+  /** Expiry time, in seconds since the epoch */
+  exp: number;
+  email?: string;
+  email_verified?: boolean;
+  /** Google Workspace domain of the account; absent for consumer accounts */
+  hd?: string;
+  name?: string;
+  picture?: string;
+  given_name?: string;
+  family_name?: string;
+  /** The nonce passed to the sign-in call */
+  nonce?: string;
+  /** Time the user authenticated, in seconds since the epoch */
+  auth_time?: number;
+  [claim: string]: unknown;
+}
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const REQUIRED_CLAIMS = {
+  iss: 'string',
+  aud: 'string',
+  sub: 'string',
+  iat: 'number',
+  exp: 'number',
+} as const;
+
+function invalidToken(message: string, cause?: unknown): GoogleSignInError {
+  return new GoogleSignInError(
+    GoogleSignInErrorCode.INVALID_ID_TOKEN,
+    `Invalid ID token: ${message}`,
+    { cause }
+  );
+}
+
+/**
+ * Decode a base64url segment. Padding is optional, as JWTs omit it.
+ */
+function base64UrlDecode(segment: string): Uint8Array {
+  const input = segment.replace(/[=]+$/, '');
+  if (input.length % 4 === 1) {
+    throw invalidToken('segment has an impossible base64url length');
+  }
+
+  const bytes = new Uint8Array(Math.floor((input.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of input) {
+    const value = BASE64URL_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw invalidToken(`unexpected character '${char}' in base64url segment`);
+    }
+    // `buffer` holds the `bits` low bits not yet written out
+    buffer = buffer * 64 + value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = Math.floor(buffer / 2 ** bits);
+      buffer %= 2 ** bits;
+    }
+  }
+  return bytes;
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  let output = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i]!;
+    let codePoint: number;
+    let continuationBytes: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+      continuationBytes = 0;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      codePoint = byte - 0xc0;
+      continuationBytes = 1;
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint = byte - 0xe0;
+      continuationBytes = 2;
+    } else if (byte >= 0xf0 && byte < 0xf8) {
+      codePoint = byte - 0xf0;
+      continuationBytes = 3;
+    } else {
+      throw invalidToken('payload is not valid UTF-8');
+    }
+    for (let j = 1; j <= continuationBytes; j++) {
+      const next = bytes[i + j];
+      if (next === undefined || next < 0x80 || next >= 0xc0) {
+        throw invalidToken('payload is not valid UTF-8');
+      }
+      codePoint = codePoint * 64 + (next - 0x80);
+    }
+    output += String.fromCodePoint(codePoint);
+    i += continuationBytes + 1;
+  }
+  return output;
+}
+
+/**
+ * Decode the payload of a Google ID token.
+ *
+ * This does **not** verify the signature, so never trust the claims for authorization on the
+ * device; send the token to your backend and verify it there.
+ *
+ * @throws GoogleSignInError with code `INVALID_ID_TOKEN` when the token is malformed
+ */
+export function decodeIdToken(idToken: string): GoogleIdTokenClaims {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw invalidToken(
+      `expected 3 dot-separated segments, got ${segments.length}`
+    );
+  }
+
+  const json = utf8Decode(base64UrlDecode(segments[1]!));
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch (error) {
+    throw invalidToken('payload is not valid JSON', error);
+  }
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    Array.isArray(payload)
+  ) {
+    throw invalidToken('payload is not a JSON object');
+  }
+
+  const claims = payload as Record<string, unknown>;
+  for (const [name, type] of Object.entries(REQUIRED_CLAIMS)) {
+    if (typeof claims[name] !== type) {
+      throw invalidToken(`claim '${name}' is missing or not a ${type}`);
+    }
+  }
+  return claims as GoogleIdTokenClaims;
+}
+
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 300;
+
+export type GoogleIdTokenValidationFailureCode =
+  | 'MALFORMED'
+  | 'EXPIRED'
+  | 'NOT_YET_VALID'
+  | 'INVALID_ISSUER'
+  | 'INVALID_AUDIENCE'
+  | 'NONCE_MISMATCH';
+
+export interface GoogleIdTokenValidationFailure {
+  code: GoogleIdTokenValidationFailureCode;
+  message: string;
+}
+
+export interface GoogleIdTokenValidationOptions {
+  /**
+   * Expected `aud` claim, usually your `webClientId`. Skipped when omitted.
+   */
+  audience?: string | ReadonlyArray<string>;
+  /**
+   * Expected `nonce` claim. Skipped when omitted.
+   */
+  nonce?: string;
+  /**
+   * Tolerated difference between the device clock and Google's, applied to `exp` and `iat`.
+   * Defaults to 300.
+   */
+  clockSkewSeconds?: number;
+  /**
+   * Current time in seconds since the epoch. Defaults to the device clock.
+   */
+  now?: number;
+}
+
+export interface GoogleIdTokenValidationResult {
+  valid: boolean;
+  /**
+   * Decoded claims, or `null` when the token could not be decoded
+   */
+  claims: GoogleIdTokenClaims | null;
+  /**
+   * Every check that failed; empty when `valid` is `true`
+   */
+  failures: GoogleIdTokenValidationFailure[];
+}
+
+/**
+ * Check the claims of a Google ID token: expiry, issue time, issuer and, when given,
+ * audience and nonce.
+ *
+ * Like `decodeIdToken()`, this does **not** verify the signature. It catches stale or
+ * misrouted tokens before they reach your backend, which must still verify them.
+ */
+export function validateIdToken(
+  idToken: string,
+  options: GoogleIdTokenValidationOptions = {}
+): GoogleIdTokenValidationResult {
+  let claims: GoogleIdTokenClaims;
+  try {
+    claims = decodeIdToken(idToken);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      valid: false,
+      claims: null,
+      failures: [{ code: 'MALFORMED', message }],
+    };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+  const failures: GoogleIdTokenValidationFailure[] = [];
+
+  if (now > claims.exp + skew) {
+    failures.push({
+      code: 'EXPIRED',
+      message: `Token expired at ${claims.exp}, current time is ${now}`,
+    });
+  }
+  if (claims.iat > now + skew) {
+    failures.push({
+      code: 'NOT_YET_VALID',
+      message: `Token was issued at ${claims.iat}, after the current time ${now}`,
+    });
+  }
+  if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+    failures.push({
+      code: 'INVALID_ISSUER',
+      message: `Unexpected issuer '${claims.iss}'`,
+    });
+  }
+  if (options.audience !== undefined) {
+    const audiences =
+      typeof options.audience === 'string'
+        ? [options.audience]
+        : options.audience;
+    if (!audiences.includes(claims.aud)) {
+      failures.push({
+        code: 'INVALID_AUDIENCE',
+        message: `Token was issued for '${claims.aud}', expected ${audiences
+          .map((audience) => `'${audience}'`)
+          .join(' or ')}`,
+      });
+    }
+  }
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    failures.push({
+      code: 'NONCE_MISMATCH',
+      message:
+        claims.nonce === undefined
+          ? 'Token has no nonce claim'
+          : 'Token nonce does not match the expected value',
+    });
+  }
+
+  return { valid: failures.length === 0, claims, failures };
+}
@@ -0,0 +1,213 @@
+import { GoogleSignInError, GoogleSignInErrorCode } from './errors';
+
+export interface GoogleSignInNonce {
+  /**
+   * Raw random value. Keep it on the device or send it to your backend for verification.
+   */
+  nonce: string;
+  /**
+   * Lowercase hex SHA-256 digest of `nonce`, for backends (e.g. Supabase, Firebase) that
+   * expect the hashed value in the ID token
+   */
+  hashedNonce: string;
+}
+
+const DEFAULT_NONCE_BYTE_LENGTH = 32;
+
+// SHA-256 round constants (FIPS 180-4, section 4.2.2)
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// SHA-256 is defined on 32-bit words, so its helpers are the only bit operations here.
+// Each returns an unsigned word.
+
+function rotr(value: number, bits: number): number {
+  // eslint-disable-next-line no-bitwise
+  return ((value >>> bits) | (value << (32 - bits))) >>> 0;
+}
+
+function sigma(value: number, a: number, b: number, c: number): number {
+  // eslint-disable-next-line no-bitwise
+  return (rotr(value, a) ^ rotr(value, b) ^ rotr(value, c)) >>> 0;
+}
+
+function smallSigma(
+  value: number,
+  a: number,
+  b: number,
+  shift: number
+): number {
+  // eslint-disable-next-line no-bitwise
+  return (rotr(value, a) ^ rotr(value, b) ^ (value >>> shift)) >>> 0;
+}
+
+function choose(e: number, f: number, g: number): number {
+  // eslint-disable-next-line no-bitwise
+  return ((e & f) ^ (~e & g)) >>> 0;
+}
+
+function majority(a: number, b: number, c: number): number {
+  // eslint-disable-next-line no-bitwise
+  return ((a & b) ^ (a & c) ^ (b & c)) >>> 0;
+}
+
+function utf8Encode(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of input) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else {
+      // Lead byte, then continuation bytes with 6 bits each
+      const continuationBytes =
+        codePoint < 0x800 ? 1 : codePoint < 0x10000 ? 2 : 3;
+      const leadByte = [0xc0, 0xe0, 0xf0][continuationBytes - 1]!;
+      bytes.push(leadByte + Math.floor(codePoint / 64 ** continuationBytes));
+      for (let i = continuationBytes - 1; i >= 0; i--) {
+        bytes.push(0x80 + (Math.floor(codePoint / 64 ** i) % 64));
+      }
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Compute the SHA-256 digest of a UTF-8 string as lowercase hex.
+ * Implemented in JS because React Native does not ship SubtleCrypto.
+ */
+export function sha256(input: string): string {
+  const message = utf8Encode(input);
+  const bitLength = message.length * 8;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the 64-bit message length
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength % 0x100000000);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = smallSigma(w[i - 15]!, 7, 18, 3);
+      const s1 = smallSigma(w[i - 2]!, 17, 19, 10);
+      w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+    }
+
+    let a = hash[0]!;
+    let b = hash[1]!;
+    let c = hash[2]!;
+    let d = hash[3]!;
+    let e = hash[4]!;
+    let f = hash[5]!;
+    let g = hash[6]!;
+    let h = hash[7]!;
+    for (let i = 0; i < 64; i++) {
+      const temp1 =
+        (h + sigma(e, 6, 11, 25) + choose(e, f, g) + K[i]! + w[i]!) %
+        0x100000000;
+      const temp2 = (sigma(a, 2, 13, 22) + majority(a, b, c)) % 0x100000000;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) % 0x100000000;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) % 0x100000000;
+    }
+
+    // Uint32Array assignment wraps the sums modulo 2^32
+    hash[0] = hash[0]! + a;
+    hash[1] = hash[1]! + b;
+    hash[2] = hash[2]! + c;
+    hash[3] = hash[3]! + d;
+    hash[4] = hash[4]! + e;
+    hash[5] = hash[5]! + f;
+    hash[6] = hash[6]! + g;
+    hash[7] = hash[7]! + h;
+  }
+
+  return Array.from(hash, (word) => word.toString(16).padStart(8, '0')).join(
+    ''
+  );
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  const alphabet =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    // Three bytes make four 6-bit characters
+    const chunk =
+      bytes[i]! * 0x10000 + (bytes[i + 1] ?? 0) * 0x100 + (bytes[i + 2] ?? 0);
+    const sextet = (index: number) =>
+      alphabet[Math.floor(chunk / 64 ** (3 - index)) % 64]!;
+    const remaining = bytes.length - i;
+    output += sextet(0) + sextet(1);
+    if (remaining > 1) {
+      output += sextet(2);
+    }
+    if (remaining > 2) {
+      output += sextet(3);
+    }
+  }
+  return output;
+}
+
+/**
+ * Generate a random nonce for `signIn({ nonce })` together with its SHA-256 hash.
+ *
+ * Requires `crypto.getRandomValues`, which React Native does not provide out of the box.
+ * Install a polyfill such as `react-native-get-random-values` (Expo apps already have one).
+ */
+export function createNonce(
+  byteLength: number = DEFAULT_NONCE_BYTE_LENGTH
+): GoogleSignInNonce {
+  if (!Number.isInteger(byteLength) || byteLength < 16) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      'createNonce() requires a byteLength of at least 16'
+    );
+  }
+
+  const cryptoImpl = (
+    globalThis as {
+      crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array };
+    }
+  ).crypto;
+  if (typeof cryptoImpl?.getRandomValues !== 'function') {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.INVALID_ARGUMENT,
+      'createNonce() requires crypto.getRandomValues. Install a polyfill such as react-native-get-random-values.'
+    );
+  }
+
+  const bytes = new Uint8Array(byteLength);
+  cryptoImpl.getRandomValues(bytes);
+  const nonce = base64UrlEncode(bytes);
+
+  return { nonce, hashedNonce: sha256(nonce) };
+}
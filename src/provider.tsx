@@ -0,0 +1,96 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { GoogleSignInError, GoogleSignInErrorCode } from './errors';
+import { track, useGoogleSignIn, type UseGoogleSignInResult } from './hooks';
+import { GoogleSignInModule, type GoogleSignInConfig } from './index';
+
+export type GoogleSignInContextValue = UseGoogleSignInResult & {
+  /**
+   * `true` once `configure()` and the optional session restore have finished,
+   * whether or not they succeeded. A configuration failure is reported through `error`.
+   */
+  ready: boolean;
+};
+
+export type GoogleSignInProviderProps = {
+  /**
+   * Passed to `configure()` when the provider mounts. Later changes are ignored.
+   */
+  config: GoogleSignInConfig;
+  /**
+   * Try `signInSilently()` after configuring, so a returning user is signed in
+   * before `ready` becomes `true`
+   */
+  restoreOnMount?: boolean;
+  children?: ReactNode;
+};
+
+const GoogleSignInContext = createContext<GoogleSignInContextValue | null>(
+  null
+);
+
+/**
+ * Configure Google Sign-In once and share its state with the component tree
+ */
+export function GoogleSignInProvider({
+  config,
+  restoreOnMount = false,
+  children,
+}: GoogleSignInProviderProps) {
+  const state = useGoogleSignIn();
+  const [ready, setReady] = useState(false);
+  // Refs survive StrictMode's double-invoked effects, so configure() still runs once
+  const startedRef = useRef(false);
+  const initialPropsRef = useRef({ config, restoreOnMount });
+
+  useEffect(() => {
+    if (startedRef.current) {
+      return;
+    }
+    startedRef.current = true;
+
+    const start = async () => {
+      const { config: initialConfig, restoreOnMount: restore } =
+        initialPropsRef.current;
+      const configured = await track(async () => {
+        await GoogleSignInModule.configure(initialConfig);
+        return true;
+      });
+      if (configured && restore) {
+        // A missing session is expected here, so use the v2 call that resolves it
+        await track(() => GoogleSignInModule.v2.signInSilently());
+      }
+      setReady(true);
+    };
+    start();
+  }, []);
+
+  const value = useMemo(() => ({ ...state, ready }), [state, ready]);
+
+  return (
+    <GoogleSignInContext.Provider value={value}>
+      {children}
+    </GoogleSignInContext.Provider>
+  );
+}
+
+/**
+ * Read the state shared by the nearest `<GoogleSignInProvider>`
+ */
+export function useGoogleSignInContext(): GoogleSignInContextValue {
+  const value = useContext(GoogleSignInContext);
+  if (!value) {
+    throw new GoogleSignInError(
+      GoogleSignInErrorCode.NO_PROVIDER,
+      'useGoogleSignInContext() must be used inside <GoogleSignInProvider>'
+    );
+  }
+  return value;
+}
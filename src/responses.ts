@@ -0,0 +1,61 @@
+import { GoogleSignInErrorCode, isGoogleSignInError } from './errors';
+import type { GoogleSignInResult } from './index';
+
+export type GoogleSignInSuccessResponse = {
+  type: 'success';
+  data: GoogleSignInResult;
+};
+
+export type GoogleSignInCancelledResponse = { type: 'cancelled' };
+
+export type GoogleSignInNoSavedCredentialResponse = {
+  type: 'noSavedCredential';
+};
+
+/**
+ * Outcome of a `v2` sign-in call. Only unexpected failures are thrown.
+ */
+export type GoogleSignInResponse =
+  | GoogleSignInSuccessResponse
+  | GoogleSignInCancelledResponse
+  | GoogleSignInNoSavedCredentialResponse;
+
+export function isSuccessResponse(
+  response: GoogleSignInResponse
+): response is GoogleSignInSuccessResponse {
+  return response.type === 'success';
+}
+
+export function isCancelledResponse(
+  response: GoogleSignInResponse
+): response is GoogleSignInCancelledResponse {
+  return response.type === 'cancelled';
+}
+
+export function isNoSavedCredentialResponse(
+  response: GoogleSignInResponse
+): response is GoogleSignInNoSavedCredentialResponse {
+  return response.type === 'noSavedCredential';
+}
+
+/**
+ * Run a sign-in call and turn cancellation and missing sessions into responses
+ */
+export async function toSignInResponse(
+  signIn: () => Promise<GoogleSignInResult>
+): Promise<GoogleSignInResponse> {
+  try {
+    return { type: 'success', data: await signIn() };
+  } catch (error) {
+    if (isGoogleSignInError(error, GoogleSignInErrorCode.USER_CANCELLED)) {
+      return { type: 'cancelled' };
+    }
+    if (
+      isGoogleSignInError(error, GoogleSignInErrorCode.SIGN_IN_REQUIRED) ||
+      isGoogleSignInError(error, GoogleSignInErrorCode.NO_SAVED_CREDENTIAL)
+    ) {
+      return { type: 'noSavedCredential' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,87 @@
+import type { GoogleSignInTokens, GoogleSignInUser } from './index';
+import {
+  parseVersioned,
+  serializeVersioned,
+  type VersionedFormat,
+} from './storage';
+
+/**
+ * What is remembered about the signed-in user between launches. Holds no tokens.
+ */
+export interface GoogleSignInSession {
+  user: GoogleSignInUser;
+  /**
+   * `exp` of the latest ID token, in seconds since the epoch
+   */
+  idTokenExpiresAt: number | null;
+}
+
+/**
+ * Storage key of the session in `storage`
+ */
+export const SESSION_KEY = 'GoogleSignIn.session';
+
+/**
+ * Storage key of the cached tokens in `sensitiveStorage`
+ */
+export const TOKENS_KEY = 'GoogleSignIn.tokens';
+
+function isUser(value: unknown): value is GoogleSignInUser {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const user = value as Record<string, unknown>;
+  return (
+    typeof user.id === 'string' &&
+    typeof user.email === 'string' &&
+    (user.name === null || typeof user.name === 'string') &&
+    (user.photo === null || typeof user.photo === 'string')
+  );
+}
+
+const SESSION_FORMAT: VersionedFormat<GoogleSignInSession> = {
+  version: 1,
+  migrations: {},
+  read: ({ user, idTokenExpiresAt }) =>
+    isUser(user)
+      ? {
+          user: {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            photo: user.photo,
+          },
+          idTokenExpiresAt:
+            typeof idTokenExpiresAt === 'number' ? idTokenExpiresAt : null,
+        }
+      : null,
+};
+
+const TOKENS_FORMAT: VersionedFormat<GoogleSignInTokens> = {
+  version: 1,
+  migrations: {},
+  read: ({ idToken, accessToken }) =>
+    typeof idToken === 'string' && typeof accessToken === 'string'
+      ? { idToken, accessToken }
+      : null,
+};
+
+export function serializeSession(session: GoogleSignInSession): string {
+  return serializeVersioned(SESSION_FORMAT, session);
+}
+
+/**
+ * Read a session written by `serializeSession()`. Returns `null` for anything unreadable,
+ * which the caller treats as signed out.
+ */
+export function parseSession(value: string | null): GoogleSignInSession | null {
+  return parseVersioned(SESSION_FORMAT, value);
+}
+
+export function serializeTokens(tokens: GoogleSignInTokens): string {
+  return serializeVersioned(TOKENS_FORMAT, tokens);
+}
+
+export function parseTokens(value: string | null): GoogleSignInTokens | null {
+  return parseVersioned(TOKENS_FORMAT, value);
+}
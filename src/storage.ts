@@ -0,0 +1,102 @@
+/**
+ * Async key-value store the library persists its state in. AsyncStorage can be passed
+ * as is; MMKV and Keychain/Keystore-backed stores need a thin wrapper.
+ */
+export interface GoogleSignInStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Storage that lives as long as the JS runtime. The default for both `storage` and
+ * `sensitiveStorage`, so nothing is written to disk unless you provide a store.
+ */
+export function createInMemoryStorage(): GoogleSignInStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+export function isStorage(value: unknown): value is GoogleSignInStorage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const storage = value as Record<string, unknown>;
+  return (
+    typeof storage.getItem === 'function' &&
+    typeof storage.setItem === 'function' &&
+    typeof storage.removeItem === 'function'
+  );
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * How one kind of record is stored. Records are JSON objects with a `version` next to
+ * their fields, and are upgraded one version at a time when read, so data written by
+ * older library versions stays readable.
+ */
+export interface VersionedFormat<T> {
+  version: number;
+  /**
+   * `migrations[n]` turns the fields of a version `n` record into version `n + 1` fields
+   */
+  migrations: Readonly<Record<number, (fields: Fields) => Fields>>;
+  /**
+   * Build the value from current-version fields, or return `null` when they are invalid
+   */
+  read: (fields: Fields) => T | null;
+}
+
+export function serializeVersioned<T extends object>(
+  format: VersionedFormat<T>,
+  value: T
+): string {
+  return JSON.stringify({ ...value, version: format.version });
+}
+
+/**
+ * Read a record written by `serializeVersioned()` with this or an older format version.
+ * Returns `null` for anything unreadable, including records from a newer version.
+ */
+export function parseVersioned<T>(
+  format: VersionedFormat<T>,
+  value: string | null
+): T | null {
+  if (value === null) {
+    return null;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return null;
+  }
+  let { version, ...fields } = data as Fields;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version > format.version
+  ) {
+    return null;
+  }
+  for (; version < format.version; version++) {
+    const migrate = format.migrations[version];
+    if (migrate === undefined) {
+      return null;
+    }
+    fields = migrate(fields);
+  }
+  return format.read(fields);
+}